@@ -0,0 +1,60 @@
+import {
+  decodeCompositeMetadata,
+  decodeDeadline,
+  DEADLINE_MIME_TYPE,
+  encodeAndAddDeadlineMetadata,
+  encodeDeadline,
+  ExplicitMimeTimeEntry,
+  encodeRoute,
+  encodeAndAddWellKnownMetadata,
+  WellKnownMimeType,
+} from "rsocket-composite-metadata";
+
+describe("DeadlineMetadata", () => {
+  it("encodes and decodes the remaining time", () => {
+    expect(encodeDeadline(1500).toString("hex")).toBe("000005dc");
+    expect(decodeDeadline(encodeDeadline(1500))).toBe(1500);
+  });
+
+  it("rounds up fractions of a millisecond", () => {
+    expect(decodeDeadline(encodeDeadline(1499.2))).toBe(1500);
+    expect(decodeDeadline(encodeDeadline(Infinity))).toBe(0xffffffff);
+  });
+
+  it("throws on invalid deadline", () => {
+    expect(() => encodeDeadline(-1)).toThrow(
+      "deadline should be a non negative number but the given one is -1"
+    );
+    expect(() => encodeDeadline(NaN)).toThrow(
+      "deadline should be a non negative number but the given one is NaN"
+    );
+    expect(() => decodeDeadline(Buffer.from([1, 2]))).toThrow(
+      "Malformed DeadlineMetadata. Expected length 4 but the given one is 2"
+    );
+  });
+
+  it("adds the deadline entry to the composite metadata", () => {
+    const routing = encodeAndAddWellKnownMetadata(
+      Buffer.alloc(0),
+      WellKnownMimeType.MESSAGE_RSOCKET_ROUTING,
+      encodeRoute("echo")
+    );
+
+    const metadata = encodeAndAddDeadlineMetadata(routing, 100);
+    const entries = Array.from(decodeCompositeMetadata(metadata));
+
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toEqual(
+      new ExplicitMimeTimeEntry(encodeDeadline(100), DEADLINE_MIME_TYPE)
+    );
+  });
+
+  it("creates the composite metadata if there is none", () => {
+    const entries = Array.from(
+      decodeCompositeMetadata(encodeAndAddDeadlineMetadata(undefined, 100))
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(decodeDeadline(entries[0].content)).toBe(100);
+  });
+});
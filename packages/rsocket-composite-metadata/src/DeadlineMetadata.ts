@@ -0,0 +1,73 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DeadlineEncoder } from "rsocket-core";
+import { encodeAndAddCustomMetadata } from "./CompositeMetadata";
+
+/**
+ * MIME type of the composite metadata entry carrying the time in milliseconds
+ * remaining until the deadline of a request.
+ */
+export const DEADLINE_MIME_TYPE = "message/x.rsocket.deadline.v0";
+
+const maxDeadline = 0xffffffff;
+
+/**
+ * Encode the remaining time of a request as an unsigned 32 bits integer.
+ * Fractions of a millisecond are rounded up, so the responder never gives up
+ * before the requester does.
+ *
+ * @param timeout remaining time in milliseconds
+ * @returns {Buffer} with encoded content
+ */
+export function encodeDeadline(timeout: number): Buffer {
+  if (!(timeout >= 0)) {
+    throw new Error(
+      `deadline should be a non negative number but the given one is ${timeout}`
+    );
+  }
+
+  const buffer = Buffer.allocUnsafe(4);
+
+  buffer.writeUInt32BE(Math.min(Math.ceil(timeout), maxDeadline));
+
+  return buffer;
+}
+
+export function decodeDeadline(deadlineMetadataBuffer: Buffer): number {
+  if (deadlineMetadataBuffer.byteLength !== 4) {
+    throw new Error(
+      `Malformed DeadlineMetadata. Expected length 4 but the given one is ${deadlineMetadataBuffer.byteLength}`
+    );
+  }
+
+  return deadlineMetadataBuffer.readUInt32BE(0);
+}
+
+/**
+ * Adds the deadline entry to the given composite metadata. Can be used as the
+ * `requests.deadlineEncoder` of the `RSocketConnector`.
+ */
+export const encodeAndAddDeadlineMetadata: DeadlineEncoder = (
+  compositeMetadata: Buffer | undefined,
+  timeout: number
+): Buffer => {
+  return encodeAndAddCustomMetadata(
+    compositeMetadata ?? Buffer.alloc(0),
+    DEADLINE_MIME_TYPE,
+    encodeDeadline(timeout)
+  );
+};
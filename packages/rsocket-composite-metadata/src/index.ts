@@ -19,3 +19,4 @@ export * from "./WellKnownMimeType";
 export * from "./AuthMetadata";
 export * from "./RoutingMetadata";
 export * from "./WellKnownAuthType";
+export * from "./DeadlineMetadata";
@@ -2,17 +2,33 @@ import { mock } from "jest-mock-extended";
 import {
   Closeable,
   ConnectionFrameHandler,
+  ErrorCodes,
+  ExtFrame,
   Flags,
   FrameHandler,
   FrameTypes,
+  InMemorySessionStore,
   Outbound,
+  PayloadFrame,
+  RequestResponseFrame,
   SetupFrame,
+  sizeOfFrame,
   StreamFrameHandler,
+  StreamLifecycleHandler,
+  StreamRequestHandler,
 } from "../src";
+import {
+  deserializeFrame,
+  FRAME_TYPE_OFFFSET,
+  MAX_STREAM_ID,
+  serializeFrame,
+} from "../src/Codecs";
 import {
   ClientServerInputMultiplexerDemultiplexer,
+  ResumableClientServerInputMultiplexerDemultiplexer,
   StreamIdGenerator,
 } from "../src/ClientServerMultiplexerDemultiplexer";
+import { FrameStore } from "../src/Resume";
 
 describe("ClientServerMultiplexerDemultiplexer", function () {
   describe("handle()", () => {
@@ -138,4 +154,573 @@ describe("ClientServerMultiplexerDemultiplexer", function () {
       });
     });
   });
+
+  describe("when resumable", () => {
+    const payloadFrame: PayloadFrame = {
+      type: FrameTypes.PAYLOAD,
+      flags: Flags.NEXT,
+      data: Buffer.from("hello world"),
+      metadata: undefined,
+      streamId: 1,
+    };
+
+    function createResumable(
+      outbound: Outbound & Closeable,
+      frameStore: FrameStore
+    ) {
+      const multiplexerDemultiplexer =
+        new ResumableClientServerInputMultiplexerDemultiplexer(
+          StreamIdGenerator.create(-1),
+          outbound,
+          outbound,
+          frameStore,
+          "token",
+          new InMemorySessionStore()
+        );
+      multiplexerDemultiplexer.connectionInbound(
+        mock<ConnectionFrameHandler>()
+      );
+      multiplexerDemultiplexer.connect(
+        mock<StreamFrameHandler>({ streamId: 1 })
+      );
+      return multiplexerDemultiplexer;
+    }
+
+    it("sends last received position in KEEPALIVE frames", () => {
+      const outbound = mock<Outbound & Closeable>();
+      const frameStore = new FrameStore();
+      const multiplexerDemultiplexer = createResumable(outbound, frameStore);
+
+      multiplexerDemultiplexer.handle(payloadFrame);
+      multiplexerDemultiplexer.connectionOutbound.send({
+        type: FrameTypes.KEEPALIVE,
+        streamId: 0,
+        flags: Flags.RESPOND,
+        data: undefined,
+        lastReceivedPosition: 0,
+      });
+
+      expect(outbound.send).toBeCalledWith(
+        expect.objectContaining({
+          type: FrameTypes.KEEPALIVE,
+          lastReceivedPosition: sizeOfFrame(payloadFrame),
+        })
+      );
+    });
+
+    it("releases stored frames acknowledged by received KEEPALIVE frames", () => {
+      const outbound = mock<Outbound & Closeable>();
+      const frameStore = new FrameStore();
+      const multiplexerDemultiplexer = createResumable(outbound, frameStore);
+
+      multiplexerDemultiplexer.send(payloadFrame);
+      multiplexerDemultiplexer.send(payloadFrame);
+
+      expect(frameStore.framesCount).toBe(2);
+
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.KEEPALIVE,
+        streamId: 0,
+        flags: Flags.NONE,
+        data: undefined,
+        lastReceivedPosition: sizeOfFrame(payloadFrame),
+      });
+
+      expect(frameStore.framesCount).toBe(1);
+      expect(frameStore.firstAvailableFramePosition).toBe(
+        sizeOfFrame(payloadFrame)
+      );
+
+      // already released positions are ignored
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.KEEPALIVE,
+        streamId: 0,
+        flags: Flags.NONE,
+        data: undefined,
+        lastReceivedPosition: 0,
+      });
+
+      expect(frameStore.framesCount).toBe(1);
+      expect(multiplexerDemultiplexer.done).toBe(false);
+    });
+
+    it("tracks the positions of EXT frames by their encoded size", () => {
+      const outbound = mock<Outbound & Closeable>();
+      const frameStore = new FrameStore();
+      const multiplexerDemultiplexer = createResumable(outbound, frameStore);
+      const extFrame: ExtFrame = {
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.IGNORE,
+        extendedType: 7,
+        extendedContent: Buffer.from("hello world"),
+      };
+      const encoded = serializeFrame(extFrame);
+
+      multiplexerDemultiplexer.connectionOutbound.send(extFrame);
+      multiplexerDemultiplexer.handle(deserializeFrame(encoded));
+
+      expect(deserializeFrame(encoded)).toEqual(extFrame);
+      expect(frameStore.framesCount).toBe(1);
+      expect(frameStore.size).toBe(encoded.length);
+      expect(frameStore.lastSentFramePosition).toBe(encoded.length);
+      expect(frameStore.lastReceivedFramePosition).toBe(encoded.length);
+    });
+
+    it("ignores frames of an unknown type with the IGNORE flag", () => {
+      const outbound = mock<Outbound & Closeable>();
+      const frameStore = new FrameStore();
+      const multiplexerDemultiplexer = createResumable(outbound, frameStore);
+      const buffer = Buffer.alloc(10);
+      buffer.writeInt32BE(1, 0);
+      buffer.writeUInt16BE((0x20 << FRAME_TYPE_OFFFSET) | Flags.IGNORE, 4);
+
+      multiplexerDemultiplexer.handle(deserializeFrame(buffer));
+
+      expect(frameStore.lastReceivedFramePosition).toBe(0);
+      expect(multiplexerDemultiplexer.done).toBe(false);
+    });
+  });
+
+  describe("StreamIdGenerator", () => {
+    it("generates ids of the same parity as the seed", () => {
+      const clientIds = [];
+      const serverIds = [];
+      const clientGenerator = StreamIdGenerator.create(-1);
+      const serverGenerator = StreamIdGenerator.create(0);
+
+      for (let i = 0; i < 3; i++) {
+        clientGenerator.next(
+          (id) => clientIds.push(id) > 0,
+          () => false
+        );
+        serverGenerator.next(
+          (id) => serverIds.push(id) > 0,
+          () => false
+        );
+      }
+
+      expect(clientIds).toEqual([1, 3, 5]);
+      expect(serverIds).toEqual([2, 4, 6]);
+    });
+
+    it("does not advance if the handler does not accept the id", () => {
+      const generator = StreamIdGenerator.create(-1);
+      const ids = [];
+
+      generator.next(
+        () => false,
+        () => false
+      );
+      generator.next(
+        (id) => ids.push(id) > 0,
+        () => false
+      );
+
+      expect(ids).toEqual([1]);
+    });
+
+    it("wraps around after MAX_STREAM_ID", () => {
+      const clientIds = [];
+      const serverIds = [];
+      const clientGenerator = StreamIdGenerator.create(MAX_STREAM_ID - 2);
+      const serverGenerator = StreamIdGenerator.create(MAX_STREAM_ID - 3);
+
+      for (let i = 0; i < 2; i++) {
+        clientGenerator.next(
+          (id) => clientIds.push(id) > 0,
+          () => false
+        );
+        serverGenerator.next(
+          (id) => serverIds.push(id) > 0,
+          () => false
+        );
+      }
+
+      expect(clientIds).toEqual([MAX_STREAM_ID, 1]);
+      expect(serverIds).toEqual([MAX_STREAM_ID - 1, 2]);
+    });
+
+    it("skips ids which are in use", () => {
+      const generator = StreamIdGenerator.create(MAX_STREAM_ID - 2);
+      const inUse = [MAX_STREAM_ID, 1, 5];
+      const ids = [];
+
+      for (let i = 0; i < 2; i++) {
+        generator.next(
+          (id) => ids.push(id) > 0,
+          (id) => inUse.indexOf(id) > -1
+        );
+      }
+
+      expect(ids).toEqual([3, 7]);
+    });
+
+    it("returns false if all ids are in use", () => {
+      const generator = StreamIdGenerator.create(-1);
+      const handler = jest.fn();
+
+      expect(generator.next(handler, () => true)).toBe(false);
+      expect(handler).not.toBeCalled();
+    });
+  });
+
+  describe("createRequestStream()", () => {
+    it("skips ids of streams which are still active", () => {
+      const outbound = mock<Outbound & Closeable>();
+      const multiplexerDemultiplexer =
+        new ClientServerInputMultiplexerDemultiplexer(
+          StreamIdGenerator.create(-1),
+          outbound,
+          outbound
+        );
+      const ids = [];
+      const streamHandler = mock<StreamLifecycleHandler & StreamFrameHandler>({
+        handleReady(streamId, stream) {
+          ids.push(streamId);
+          if (streamId === 1) {
+            stream.connect(mock<StreamFrameHandler>({ streamId }));
+          }
+          return true;
+        },
+      });
+
+      multiplexerDemultiplexer.createRequestStream(streamHandler);
+      multiplexerDemultiplexer.createRequestStream(streamHandler);
+
+      expect(ids).toEqual([1, 3]);
+    });
+
+    it("rejects the request if there is no available stream id", () => {
+      const outbound = mock<Outbound & Closeable>();
+      const generator = mock<StreamIdGenerator>();
+      generator.next.mockReturnValue(false);
+      const multiplexerDemultiplexer =
+        new ClientServerInputMultiplexerDemultiplexer(
+          generator,
+          outbound,
+          outbound
+        );
+      const streamHandler = mock<StreamLifecycleHandler & StreamFrameHandler>();
+
+      multiplexerDemultiplexer.createRequestStream(streamHandler);
+
+      expect(streamHandler.handleReady).not.toBeCalled();
+      expect(streamHandler.handleReject).toBeCalledWith(
+        expect.objectContaining({ message: "No available stream id" })
+      );
+    });
+  });
+
+  describe("protocol violations", () => {
+    function createMultiplexerDemultiplexer(strict?: boolean) {
+      const outbound = mock<Outbound & Closeable>();
+      const requestHandler = mock<StreamRequestHandler>();
+      const multiplexerDemultiplexer =
+        new ClientServerInputMultiplexerDemultiplexer(
+          StreamIdGenerator.create(0),
+          outbound,
+          outbound,
+          strict
+        );
+      const connectionFrameHandler = mock<ConnectionFrameHandler>();
+      multiplexerDemultiplexer.handleRequestStream(requestHandler);
+      multiplexerDemultiplexer.connectionInbound(connectionFrameHandler);
+      return {
+        outbound,
+        requestHandler,
+        connectionFrameHandler,
+        multiplexerDemultiplexer,
+      };
+    }
+
+    function requestFrame(streamId: number): RequestResponseFrame {
+      return {
+        type: FrameTypes.REQUEST_RESPONSE,
+        streamId,
+        flags: Flags.NONE,
+        data: Buffer.from("hello"),
+        metadata: undefined,
+      };
+    }
+
+    function expectConnectionError(outbound: Outbound & Closeable) {
+      expect(outbound.send).toBeCalledWith(
+        expect.objectContaining({
+          type: FrameTypes.ERROR,
+          streamId: 0,
+          code: ErrorCodes.CONNECTION_ERROR,
+        })
+      );
+      expect(outbound.close).toBeCalledWith(
+        expect.objectContaining({ code: ErrorCodes.CONNECTION_ERROR })
+      );
+    }
+
+    function encodedFrame(type: number, streamId: number, flags: number) {
+      const buffer = Buffer.from("\0\0\0\0\0\0content");
+      buffer.writeInt32BE(streamId, 0);
+      buffer.writeUInt16BE((type << FRAME_TYPE_OFFFSET) | flags, 4);
+      return deserializeFrame(buffer);
+    }
+
+    it("closes the connection on a RESERVED frame", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle(
+        encodedFrame(FrameTypes.RESERVED, 0, Flags.NONE)
+      );
+
+      expectConnectionError(outbound);
+    });
+
+    it("ignores a RESERVED frame with the IGNORE flag", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle(
+        encodedFrame(FrameTypes.RESERVED, 0, Flags.IGNORE)
+      );
+
+      expect(outbound.send).not.toBeCalled();
+      expect(outbound.close).not.toBeCalled();
+    });
+
+    it("closes the connection on a frame of an unknown type", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle(encodedFrame(0x20, 1, Flags.NONE));
+
+      expectConnectionError(outbound);
+      expect(outbound.send).toBeCalledWith(
+        expect.objectContaining({ message: "Unexpected frame type [32]" })
+      );
+    });
+
+    it("ignores a frame of an unknown type with the IGNORE flag", () => {
+      const { outbound, connectionFrameHandler, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle(encodedFrame(0x20, 0, Flags.IGNORE));
+
+      expect(connectionFrameHandler.handle).not.toBeCalled();
+      expect(outbound.send).not.toBeCalled();
+      expect(outbound.close).not.toBeCalled();
+    });
+
+    it("closes the connection on a request reusing an active stream id", () => {
+      const { outbound, requestHandler, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+      requestHandler.handle.mockImplementation((frame, stream) =>
+        stream.connect(mock<StreamFrameHandler>({ streamId: frame.streamId }))
+      );
+
+      multiplexerDemultiplexer.handle(requestFrame(1));
+      multiplexerDemultiplexer.handle(requestFrame(1));
+
+      expect(requestHandler.handle).toBeCalledTimes(1);
+      expectConnectionError(outbound);
+    });
+
+    it("closes the connection on a request with the wrong stream id parity", () => {
+      const { outbound, requestHandler, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle(requestFrame(2));
+
+      expect(requestHandler.handle).not.toBeCalled();
+      expectConnectionError(outbound);
+    });
+
+    it("closes the connection on a frame for an unknown stream", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.CANCEL,
+        streamId: 1,
+        flags: Flags.NONE,
+      });
+
+      expectConnectionError(outbound);
+    });
+
+    it("closes the connection on ERROR frame with stream level code on stream 0", () => {
+      const { outbound, connectionFrameHandler, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: ErrorCodes.APPLICATION_ERROR,
+        message: "boom",
+      });
+
+      expectConnectionError(outbound);
+      expect(connectionFrameHandler.handle).not.toBeCalled();
+    });
+
+    it("ignores EXT frame with IGNORE flag for an unknown stream", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.EXT,
+        streamId: 1,
+        flags: Flags.IGNORE,
+        extendedType: 1,
+      });
+
+      expect(outbound.send).not.toBeCalled();
+      expect(outbound.close).not.toBeCalled();
+    });
+
+    it("ignores late frames for recently closed streams", () => {
+      const { outbound, requestHandler, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+      const handler = mock<StreamFrameHandler>({ streamId: 1 });
+      requestHandler.handle.mockImplementation((frame, stream) =>
+        stream.connect(handler)
+      );
+
+      multiplexerDemultiplexer.handle(requestFrame(1));
+      multiplexerDemultiplexer.disconnect(handler);
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.CANCEL,
+        streamId: 1,
+        flags: Flags.NONE,
+      });
+
+      expect(handler.handle).not.toBeCalled();
+      expect(outbound.send).not.toBeCalled();
+      expect(outbound.close).not.toBeCalled();
+    });
+
+    it("ignores late frames for streams terminated right away", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.REQUEST_FNF,
+        streamId: 1,
+        flags: Flags.NONE,
+        data: Buffer.from("hello"),
+        metadata: undefined,
+      });
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.CANCEL,
+        streamId: 1,
+        flags: Flags.NONE,
+      });
+
+      expect(outbound.send).not.toBeCalled();
+      expect(outbound.close).not.toBeCalled();
+    });
+
+    it("only logs violations when not strict", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer(false);
+
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.CANCEL,
+        streamId: 1,
+        flags: Flags.NONE,
+      });
+
+      expect(warn).toBeCalledWith("Protocol violation. Unknown stream id [1]");
+      expect(outbound.send).not.toBeCalled();
+      expect(outbound.close).not.toBeCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("drain()", () => {
+    function createMultiplexerDemultiplexer() {
+      const outbound = mock<Outbound & Closeable>();
+      const multiplexerDemultiplexer =
+        new ClientServerInputMultiplexerDemultiplexer(
+          StreamIdGenerator.create(0),
+          outbound,
+          outbound
+        );
+      multiplexerDemultiplexer.handleRequestStream(
+        mock<StreamRequestHandler>()
+      );
+      return { outbound, multiplexerDemultiplexer };
+    }
+
+    it("resolves immediately if there are no active streams", async () => {
+      const { multiplexerDemultiplexer } = createMultiplexerDemultiplexer();
+
+      await expect(multiplexerDemultiplexer.drain()).resolves.toBeUndefined();
+    });
+
+    it("resolves once all active streams are terminated", async () => {
+      const { multiplexerDemultiplexer } = createMultiplexerDemultiplexer();
+      const handler = mock<StreamFrameHandler>({ streamId: 1 });
+      const onDrained = jest.fn();
+      multiplexerDemultiplexer.connect(handler);
+
+      const drained = multiplexerDemultiplexer.drain().then(onDrained);
+      await Promise.resolve();
+      expect(onDrained).not.toBeCalled();
+
+      multiplexerDemultiplexer.disconnect(handler);
+      await drained;
+
+      expect(onDrained).toBeCalled();
+    });
+
+    it("resolves once the timeout has elapsed", async () => {
+      jest.useFakeTimers();
+      try {
+        const { multiplexerDemultiplexer } = createMultiplexerDemultiplexer();
+        multiplexerDemultiplexer.connect(
+          mock<StreamFrameHandler>({ streamId: 1 })
+        );
+
+        const drained = multiplexerDemultiplexer.drain(1000);
+        jest.advanceTimersByTime(1000);
+
+        await expect(drained).resolves.toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("rejects new requests", () => {
+      const { outbound, multiplexerDemultiplexer } =
+        createMultiplexerDemultiplexer();
+      const streamHandler = mock<StreamLifecycleHandler & StreamFrameHandler>();
+      multiplexerDemultiplexer.connect(
+        mock<StreamFrameHandler>({ streamId: 1 })
+      );
+
+      multiplexerDemultiplexer.drain();
+      multiplexerDemultiplexer.createRequestStream(streamHandler);
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.REQUEST_RESPONSE,
+        streamId: 3,
+        flags: Flags.NONE,
+        data: Buffer.from("hello"),
+        metadata: undefined,
+      });
+
+      expect(streamHandler.handleReady).not.toBeCalled();
+      expect(streamHandler.handleReject).toBeCalledWith(
+        expect.objectContaining({ code: ErrorCodes.REJECTED })
+      );
+      expect(outbound.send).toBeCalledWith({
+        type: FrameTypes.ERROR,
+        streamId: 3,
+        flags: Flags.NONE,
+        code: ErrorCodes.REJECTED,
+        message: "Connection is being closed",
+      });
+    });
+  });
 });
@@ -1,6 +1,10 @@
+import { ExtFrame, Flags, FrameTypes } from "../src";
 import {
+  deserializeFrameWithLength,
   readUInt24BE,
   readUInt64BE,
+  serializeFrameWithLength,
+  sizeOfFrame,
   writeUInt24BE,
   writeUInt64BE,
 } from "../src/Codecs";
@@ -58,4 +62,25 @@ describe("Codecs", () => {
       expect(buffer.toString("hex")).toBe("001fffffffffffff");
     });
   });
+
+  describe("EXT frame", () => {
+    [Buffer.from("hello world"), undefined].forEach((extendedContent) => {
+      it(`writes and reads back ${
+        extendedContent ? "a frame with content" : "an empty frame"
+      }`, () => {
+        const frame: ExtFrame = {
+          type: FrameTypes.EXT,
+          streamId: 1,
+          flags: Flags.IGNORE,
+          extendedType: 0x7fffffff,
+          extendedContent,
+        };
+
+        const buffer = serializeFrameWithLength(frame);
+
+        expect(buffer.length).toBe(3 + sizeOfFrame(frame));
+        expect(deserializeFrameWithLength(buffer)).toEqual(frame);
+      });
+    });
+  });
 });
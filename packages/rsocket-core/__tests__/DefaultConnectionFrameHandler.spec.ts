@@ -0,0 +1,301 @@
+import { mock } from "jest-mock-extended";
+import {
+  Demultiplexer,
+  DuplexConnection,
+  ConnectionCloseError,
+  ErrorCodes,
+  ExtensionRegistry,
+  Flags,
+  FrameHandler,
+  FrameTypes,
+  Multiplexer,
+  Outbound,
+} from "../src";
+import { RSocket } from "../src/RSocket";
+import {
+  DefaultConnectionFrameHandler,
+  KeepAliveHandler,
+} from "../src/RSocketSupport";
+
+describe("DefaultConnectionFrameHandler", () => {
+  function createConnection() {
+    const mockOutbound = mock<Outbound>();
+    const mockConnection = mock<DuplexConnection>({
+      multiplexerDemultiplexer: mock<
+        Multiplexer & Demultiplexer & FrameHandler
+      >({
+        connectionOutbound: mockOutbound,
+      }),
+    });
+    return { mockOutbound, mockConnection };
+  }
+
+  describe("when receiving METADATA_PUSH frame", () => {
+    it("Calls responder metadataPush with frame metadata", () => {
+      const mockResponder = mock<RSocket>();
+      const handler = new DefaultConnectionFrameHandler(
+        mock<DuplexConnection>(),
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        mockResponder
+      );
+
+      handler.handle({
+        type: FrameTypes.METADATA_PUSH,
+        streamId: 0,
+        flags: Flags.METADATA,
+        metadata: Buffer.from("hello"),
+      });
+
+      expect(mockResponder.metadataPush).toBeCalledTimes(1);
+      expect(mockResponder.metadataPush.mock.calls[0][0]).toEqual(
+        Buffer.from("hello")
+      );
+    });
+
+    it("Ignores frame if responder does not handle metadataPush", () => {
+      const mockConnection = mock<DuplexConnection>();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {}
+      );
+
+      handler.handle({
+        type: FrameTypes.METADATA_PUSH,
+        streamId: 0,
+        flags: Flags.METADATA,
+        metadata: Buffer.from("hello"),
+      });
+
+      expect(mockConnection.close).not.toBeCalled();
+    });
+
+    it("Closes connection if responder metadataPush throws", () => {
+      const { mockOutbound, mockConnection } = createConnection();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {
+          metadataPush() {
+            throw new Error("Boom");
+          },
+        }
+      );
+
+      handler.handle({
+        type: FrameTypes.METADATA_PUSH,
+        streamId: 0,
+        flags: Flags.METADATA,
+        metadata: Buffer.from("hello"),
+      });
+
+      expect(mockOutbound.send).toBeCalledWith({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: ErrorCodes.CONNECTION_ERROR,
+        message: "Boom",
+      });
+      expect(mockConnection.close).toBeCalledWith(
+        expect.objectContaining({ code: ErrorCodes.CONNECTION_ERROR })
+      );
+    });
+
+    it("Closes connection if responder metadataPush reports an error", () => {
+      const { mockConnection } = createConnection();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {
+          metadataPush(metadata, responderStream) {
+            responderStream.onError(new Error("Boom"));
+          },
+        }
+      );
+
+      handler.handle({
+        type: FrameTypes.METADATA_PUSH,
+        streamId: 0,
+        flags: Flags.METADATA,
+        metadata: Buffer.from("hello"),
+      });
+
+      expect(mockConnection.close).toBeCalledWith(
+        expect.objectContaining({
+          code: ErrorCodes.CONNECTION_ERROR,
+          message: "Boom",
+        })
+      );
+    });
+  });
+
+  describe("when receiving EXT frame", () => {
+    it("Calls the handler registered for the extended type", () => {
+      const { mockConnection } = createConnection();
+      const extensionHandler = jest.fn();
+      const mockResponder = mock<RSocket>();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        mockResponder,
+        new ExtensionRegistry().register(1, extensionHandler)
+      );
+
+      handler.handle({
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.NONE,
+        extendedType: 1,
+        extendedContent: Buffer.from("hello"),
+      });
+
+      expect(extensionHandler).toBeCalledWith(Buffer.from("hello"), false);
+      expect(mockResponder.onExtension).not.toBeCalled();
+    });
+
+    it("Calls responder onExtension if there is no registered handler", () => {
+      const { mockConnection } = createConnection();
+      const mockResponder = mock<RSocket>();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        mockResponder,
+        new ExtensionRegistry()
+      );
+
+      handler.handle({
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.IGNORE,
+        extendedType: 1,
+        extendedContent: Buffer.from("hello"),
+      });
+
+      expect(mockResponder.onExtension).toBeCalledWith(
+        1,
+        Buffer.from("hello"),
+        true
+      );
+    });
+
+    it("Closes connection if the extension handler throws", () => {
+      const { mockOutbound, mockConnection } = createConnection();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {},
+        new ExtensionRegistry().register(1, () => {
+          throw new Error("Boom");
+        })
+      );
+
+      handler.handle({
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.IGNORE,
+        extendedType: 1,
+        extendedContent: Buffer.from("hello"),
+      });
+
+      expect(mockOutbound.send).toBeCalledWith({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: ErrorCodes.CONNECTION_ERROR,
+        message: "Boom",
+      });
+      expect(mockConnection.close).toBeCalledWith(
+        expect.objectContaining({ code: ErrorCodes.CONNECTION_ERROR })
+      );
+    });
+
+    it("Ignores unsupported extension with IGNORE flag", () => {
+      const { mockOutbound, mockConnection } = createConnection();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {}
+      );
+
+      handler.handle({
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.IGNORE,
+        extendedType: 1,
+      });
+
+      expect(mockOutbound.send).not.toBeCalled();
+      expect(mockConnection.close).not.toBeCalled();
+    });
+
+    it("Closes connection on unsupported extension without IGNORE flag", () => {
+      const { mockOutbound, mockConnection } = createConnection();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {}
+      );
+
+      handler.handle({
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.NONE,
+        extendedType: 1,
+      });
+
+      expect(mockOutbound.send).toBeCalledWith({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: ErrorCodes.CONNECTION_ERROR,
+        message: "Unsupported extension [1]",
+      });
+      expect(mockConnection.close).toBeCalledWith(
+        expect.objectContaining({ code: ErrorCodes.CONNECTION_ERROR })
+      );
+    });
+  });
+
+  describe("when receiving ERROR frame", () => {
+    it("Closes connection with the error corresponding to the code", () => {
+      const mockConnection = mock<DuplexConnection>();
+      const handler = new DefaultConnectionFrameHandler(
+        mockConnection,
+        mock<KeepAliveHandler>(),
+        undefined,
+        undefined,
+        {}
+      );
+
+      handler.handle({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: ErrorCodes.CONNECTION_CLOSE,
+        message: "Bye",
+      });
+
+      const error = mockConnection.close.mock.calls[0][0];
+      expect(error).toBeInstanceOf(ConnectionCloseError);
+      expect(error.message).toBe("Bye");
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  ConnectionCloseError,
+  ConnectionError,
+  createConnectionError,
+  ErrorCodes,
+  InvalidSetupError,
+  isConnectionErrorCode,
+  RejectedResumeError,
+  RejectedSetupError,
+  RSocketError,
+  UnsupportedSetupError,
+} from "../src";
+
+describe("Errors", () => {
+  describe("createConnectionError", () => {
+    it.each([
+      [ErrorCodes.INVALID_SETUP, InvalidSetupError],
+      [ErrorCodes.UNSUPPORTED_SETUP, UnsupportedSetupError],
+      [ErrorCodes.REJECTED_SETUP, RejectedSetupError],
+      [ErrorCodes.REJECTED_RESUME, RejectedResumeError],
+      [ErrorCodes.CONNECTION_ERROR, ConnectionError],
+      [ErrorCodes.CONNECTION_CLOSE, ConnectionCloseError],
+    ])("maps code %d to a distinct error", (code, errorClass) => {
+      const error = createConnectionError(code, "boom");
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(RSocketError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.code).toBe(code);
+      expect(error.message).toBe("boom");
+    });
+
+    it("creates a generic error for extension codes", () => {
+      const error = createConnectionError(0x00000301, "boom");
+
+      expect(error).not.toBeInstanceOf(ConnectionError);
+      expect(error).toBeInstanceOf(RSocketError);
+      expect(error.code).toBe(0x00000301);
+    });
+  });
+
+  describe("isConnectionErrorCode", () => {
+    it("accepts stream 0 and extension codes", () => {
+      expect(isConnectionErrorCode(ErrorCodes.INVALID_SETUP)).toBe(true);
+      expect(isConnectionErrorCode(ErrorCodes.CONNECTION_CLOSE)).toBe(true);
+      expect(isConnectionErrorCode(0x00000301)).toBe(true);
+      expect(isConnectionErrorCode(0xfffffffe)).toBe(true);
+    });
+
+    it("rejects stream level and reserved codes", () => {
+      expect(isConnectionErrorCode(ErrorCodes.RESERVED)).toBe(false);
+      expect(isConnectionErrorCode(ErrorCodes.APPLICATION_ERROR)).toBe(false);
+      expect(isConnectionErrorCode(ErrorCodes.REJECTED)).toBe(false);
+      expect(isConnectionErrorCode(ErrorCodes.CANCELED)).toBe(false);
+      expect(isConnectionErrorCode(ErrorCodes.INVALID)).toBe(false);
+      expect(isConnectionErrorCode(ErrorCodes.RESERVED_EXTENSION)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { ExtensionRegistry } from "../src";
+
+describe("ExtensionRegistry", () => {
+  it("dispatches extensions to the handler registered for the type", () => {
+    const firstHandler = jest.fn();
+    const secondHandler = jest.fn();
+    const registry = new ExtensionRegistry()
+      .register(1, firstHandler)
+      .register(2, secondHandler);
+
+    expect(registry.handle(2, Buffer.from("hello"), false)).toBe(true);
+
+    expect(firstHandler).not.toBeCalled();
+    expect(secondHandler).toBeCalledWith(Buffer.from("hello"), false);
+  });
+
+  it("throws if a handler is already registered for the type", () => {
+    const registry = new ExtensionRegistry().register(1, jest.fn());
+
+    expect(() => registry.register(1, jest.fn())).toThrow(
+      "Handler for extension [1] has already been registered"
+    );
+  });
+
+  it("does not dispatch to unregistered handlers", () => {
+    const handler = jest.fn();
+    const registry = new ExtensionRegistry().register(1, handler);
+
+    registry.unregister(1);
+
+    expect(registry.has(1)).toBe(false);
+    expect(registry.handle(1, undefined, true)).toBe(true);
+    expect(handler).not.toBeCalled();
+  });
+
+  it("reports unsupported extensions which can not be ignored", () => {
+    const onUnsupported = jest.fn();
+    const registry = new ExtensionRegistry(onUnsupported);
+
+    expect(registry.handle(1, undefined, false)).toBe(false);
+
+    registry.onExtension(1, undefined, true);
+    expect(onUnsupported).not.toBeCalled();
+
+    registry.onExtension(1, undefined, false);
+    expect(onUnsupported).toBeCalledWith(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { Flags, FrameTypes, logFrames, printFrame } from "../src";
+
+describe("printFrame", () => {
+  it("prints the frame type, stream id and flags", () => {
+    expect(
+      printFrame({
+        type: FrameTypes.CANCEL,
+        streamId: 1,
+        flags: Flags.NONE,
+      })
+    ).toBe("CANCEL streamId=1 flags=0x0");
+  });
+
+  it("decodes the flags according to the frame type", () => {
+    expect(
+      printFrame({
+        type: FrameTypes.PAYLOAD,
+        streamId: 3,
+        flags: Flags.NEXT | Flags.COMPLETE | Flags.METADATA,
+        data: Buffer.from("hello"),
+        metadata: Buffer.from([0x01, 0x02]),
+      })
+    ).toBe(
+      'PAYLOAD streamId=3 flags=0x160 (METADATA|COMPLETE|NEXT) metadata=0x0102 data="hello"'
+    );
+    expect(
+      printFrame({
+        type: FrameTypes.KEEPALIVE,
+        streamId: 0,
+        flags: Flags.RESPOND,
+        data: undefined,
+        lastReceivedPosition: 0,
+      })
+    ).toBe("KEEPALIVE streamId=0 flags=0x80 (RESPOND) lastReceivedPosition=0");
+  });
+
+  it("prints the frame specific fields", () => {
+    expect(
+      printFrame({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: 0x101,
+        message: "boom",
+      })
+    ).toBe("ERROR streamId=0 flags=0x0 code=0x101 message=boom");
+  });
+
+  it("truncates long data", () => {
+    const printed = printFrame({
+      type: FrameTypes.REQUEST_FNF,
+      streamId: 1,
+      flags: Flags.NONE,
+      data: Buffer.alloc(100, "a"),
+      metadata: undefined,
+    });
+
+    expect(printed).toBe(
+      `REQUEST_FNF streamId=1 flags=0x0 data="${"a".repeat(64)}"...(100 bytes)`
+    );
+  });
+});
+
+describe("logFrames", () => {
+  it("prints the frames with the direction and the timestamp", () => {
+    const log = jest.fn();
+
+    logFrames(log)(
+      { type: FrameTypes.CANCEL, streamId: 1, flags: Flags.NONE },
+      "inbound",
+      0
+    );
+
+    expect(log).toBeCalledWith(
+      "1970-01-01T00:00:00.000Z << CANCEL streamId=1 flags=0x0"
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  ErrorCodes,
+  Flags,
+  FrameStore,
+  FrameStoreOverflowPolicy,
+  FrameTypes,
+  PayloadFrame,
+  RSocketError,
+  sizeOfFrame,
+} from "../src";
+
+const frame: PayloadFrame = {
+  type: FrameTypes.PAYLOAD,
+  streamId: 1,
+  flags: Flags.NEXT,
+  data: Buffer.from("hello world"),
+  metadata: undefined,
+};
+const frameSize = sizeOfFrame(frame);
+
+describe("FrameStore", () => {
+  it("Tracks size of stored frames and releases them on dropTo", () => {
+    const store = new FrameStore();
+
+    store.store(frame);
+    store.store(frame);
+
+    expect(store.size).toBe(2 * frameSize);
+    expect(store.framesCount).toBe(2);
+    expect(store.lastSentFramePosition).toBe(2 * frameSize);
+
+    store.dropTo(frameSize);
+
+    expect(store.size).toBe(frameSize);
+    expect(store.framesCount).toBe(1);
+    expect(store.firstAvailableFramePosition).toBe(frameSize);
+  });
+
+  it("Rejects frames exceeding the cache size with REJECTED_RESUME error", () => {
+    const store = new FrameStore(
+      2 * frameSize,
+      FrameStoreOverflowPolicy.REJECT
+    );
+
+    store.store(frame);
+    store.store(frame);
+
+    let error: RSocketError;
+    try {
+      store.store(frame);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error.code).toBe(ErrorCodes.REJECTED_RESUME);
+    expect(store.size).toBe(2 * frameSize);
+    expect(store.lastSentFramePosition).toBe(2 * frameSize);
+    expect(store.resumable).toBe(true);
+  });
+
+  it("Drops resumability once the cache size is exceeded", () => {
+    const store = new FrameStore(
+      2 * frameSize,
+      FrameStoreOverflowPolicy.DROP_RESUMABILITY
+    );
+
+    store.store(frame);
+    store.store(frame);
+    store.store(frame);
+
+    expect(store.resumable).toBe(false);
+    expect(store.size).toBe(0);
+    expect(store.framesCount).toBe(0);
+    expect(store.droppedFramesCount).toBe(3);
+    expect(store.droppedBytes).toBe(3 * frameSize);
+    expect(store.lastSentFramePosition).toBe(3 * frameSize);
+
+    expect(() => store.dropTo(3 * frameSize)).not.toThrow();
+    expect(store.firstAvailableFramePosition).toBe(3 * frameSize);
+  });
+});
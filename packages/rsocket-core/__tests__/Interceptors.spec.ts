@@ -0,0 +1,120 @@
+import { mock } from "jest-mock-extended";
+import {
+  Availability,
+  Cancellable,
+  FrameTypes,
+  intercept,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  RequestInterceptor,
+  Requestable,
+  RSocket,
+} from "../src";
+
+describe("intercept", () => {
+  it("composes interceptors with the first one being the outermost", () => {
+    const calls: Array<string> = [];
+    const interceptor =
+      (name: string) =>
+      (next: (value: string) => string) =>
+      (value: string) => {
+        calls.push(name);
+        return next(value);
+      };
+
+    const intercepted = intercept(
+      (value: string) => value,
+      [interceptor("first"), interceptor("second")]
+    );
+
+    expect(intercepted("hello")).toBe("hello");
+    expect(calls).toEqual(["first", "second"]);
+  });
+
+  it("returns the source if there are no interceptors", () => {
+    const source = {};
+
+    expect(intercept(source, undefined)).toBe(source);
+  });
+});
+
+describe("RequestInterceptor", () => {
+  function subscriber() {
+    return mock<
+      OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+    >();
+  }
+
+  it("sees the payload, the interaction type and the terminal signals", () => {
+    const rsocket = mock<RSocket & Availability>({ availability: 0.5 });
+    rsocket.requestResponse.mockReturnValue(
+      mock<Cancellable & OnExtensionSubscriber>()
+    );
+    const interceptor = {
+      onStart: jest.fn(() => ({ data: Buffer.from("intercepted") })),
+      onTerminate: jest.fn(),
+      onCancel: jest.fn(),
+    };
+    const intercepted = RequestInterceptor.forRequester(interceptor)(rsocket);
+    const responder = subscriber();
+
+    intercepted.requestResponse({ data: Buffer.from("hello") }, responder);
+    const [payload, receiver] = rsocket.requestResponse.mock.calls[0];
+    receiver.onNext({ data: Buffer.from("world") }, true);
+
+    expect(intercepted.availability).toBe(0.5);
+    expect(interceptor.onStart).toBeCalledWith(FrameTypes.REQUEST_RESPONSE, {
+      data: Buffer.from("hello"),
+    });
+    expect(payload).toEqual({ data: Buffer.from("intercepted") });
+    expect(responder.onNext).toBeCalledWith(
+      { data: Buffer.from("world") },
+      true
+    );
+    expect(interceptor.onTerminate).toBeCalledWith(FrameTypes.REQUEST_RESPONSE);
+    expect(interceptor.onCancel).not.toBeCalled();
+  });
+
+  it("sees the errors and cancellations", () => {
+    const rsocket = mock<RSocket & Availability>();
+    const handler = mock<Cancellable & Requestable & OnExtensionSubscriber>();
+    rsocket.requestStream.mockReturnValue(handler);
+    const interceptor = {
+      onTerminate: jest.fn(),
+      onCancel: jest.fn(),
+    };
+    const intercepted = RequestInterceptor.forRequester(interceptor)(rsocket);
+
+    intercepted
+      .requestStream({ data: Buffer.from("hello") }, 1, subscriber())
+      .cancel();
+    intercepted.requestStream({ data: Buffer.from("hello") }, 1, subscriber());
+    const error = new Error("boom");
+    rsocket.requestStream.mock.calls[1][2].onError(error);
+
+    expect(rsocket.requestStream.mock.calls[0][0]).toEqual({
+      data: Buffer.from("hello"),
+    });
+    expect(handler.cancel).toBeCalled();
+    expect(interceptor.onCancel).toBeCalledTimes(1);
+    expect(interceptor.onCancel).toBeCalledWith(FrameTypes.REQUEST_STREAM);
+    expect(interceptor.onTerminate).toBeCalledTimes(1);
+    expect(interceptor.onTerminate).toBeCalledWith(
+      FrameTypes.REQUEST_STREAM,
+      error
+    );
+  });
+
+  it("keeps the interactions unsupported by the responder undefined", () => {
+    const responder: Partial<RSocket> = {
+      requestResponse: jest.fn(),
+    };
+
+    const intercepted = RequestInterceptor.forResponder({})(responder);
+
+    expect(intercepted.requestResponse).toBeDefined();
+    expect(intercepted.requestStream).toBeUndefined();
+    expect(intercepted.fireAndForget).toBeUndefined();
+  });
+});
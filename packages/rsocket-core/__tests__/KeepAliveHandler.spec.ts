@@ -1,4 +1,4 @@
-import { KeepAliveHandler } from "../src/RSocketSupport";
+import { KeepAliveHandler, KeepAliveSender } from "../src/RSocketSupport";
 import { mock } from "jest-mock-extended";
 import {
   Demultiplexer,
@@ -6,6 +6,7 @@ import {
   Flags,
   FrameHandler,
   FrameTypes,
+  KeepAliveFrame,
   Multiplexer,
 } from "../src";
 import { Closeable, Outbound } from "../src";
@@ -61,4 +62,103 @@ describe("KeepAliveHandler", () => {
 
     expect(mockConnection.close).toBeCalledTimes(0);
   });
+
+  it("Availability decreases with the time since the last KeepAlive frame", () => {
+    const mockConnection = mock<DuplexConnection>({
+      multiplexerDemultiplexer: mock<
+        Multiplexer & Demultiplexer & FrameHandler & Closeable
+      >({
+        connectionOutbound: mock<Outbound>(),
+      }),
+    });
+    const handler = new KeepAliveHandler(mockConnection, 10000);
+
+    expect(handler.availability).toBe(0);
+
+    handler.start();
+
+    expect(handler.availability).toBe(1);
+
+    jest.advanceTimersByTime(2500);
+
+    expect(handler.availability).toBe(0.75);
+
+    handler.handle({
+      type: FrameTypes.KEEPALIVE,
+      streamId: 0,
+      data: undefined,
+      flags: Flags.NONE,
+      lastReceivedPosition: 0,
+    });
+
+    expect(handler.availability).toBe(1);
+
+    handler.close();
+
+    expect(handler.availability).toBe(0);
+  });
+
+  it("Measures the round trip time of the acknowledged KeepAlive frames", () => {
+    const mockOutbound = mock<Outbound>();
+    const mockConnection = mock<DuplexConnection>({
+      multiplexerDemultiplexer: mock<
+        Multiplexer & Demultiplexer & FrameHandler & Closeable
+      >({
+        connectionOutbound: mock<Outbound>(),
+      }),
+    });
+    const sender = new KeepAliveSender(mockOutbound, 1000);
+    const handler = new KeepAliveHandler(mockConnection, 10000);
+    const acknowledge = (call: number) => {
+      const frame = mockOutbound.send.mock.calls[call][0] as KeepAliveFrame;
+      handler.handle({
+        ...frame,
+        flags: frame.flags ^ Flags.RESPOND,
+      });
+    };
+
+    sender.start();
+    handler.start();
+
+    expect(handler.lastRtt).toBeUndefined();
+    expect(handler.smoothedRtt).toBeUndefined();
+
+    jest.advanceTimersByTime(1000);
+    jest.advanceTimersByTime(80);
+    acknowledge(0);
+
+    expect(handler.lastRtt).toBe(80);
+    expect(handler.smoothedRtt).toBe(80);
+
+    jest.advanceTimersByTime(920);
+    jest.advanceTimersByTime(160);
+    acknowledge(1);
+
+    expect(handler.lastRtt).toBe(160);
+    expect(handler.smoothedRtt).toBe(90);
+
+    sender.close();
+    handler.close();
+  });
+
+  it("Ignores the acknowledgements without a timestamp", () => {
+    const mockConnection = mock<DuplexConnection>({
+      multiplexerDemultiplexer: mock<
+        Multiplexer & Demultiplexer & FrameHandler & Closeable
+      >({
+        connectionOutbound: mock<Outbound>(),
+      }),
+    });
+    const handler = new KeepAliveHandler(mockConnection, 10000);
+
+    handler.handle({
+      type: FrameTypes.KEEPALIVE,
+      streamId: 0,
+      data: Buffer.from("hello"),
+      flags: Flags.NONE,
+      lastReceivedPosition: 0,
+    });
+
+    expect(handler.lastRtt).toBeUndefined();
+  });
 });
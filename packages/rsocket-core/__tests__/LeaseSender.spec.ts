@@ -0,0 +1,58 @@
+import { mock } from "jest-mock-extended";
+import { LeaseSender, LeaseSink, LeaseStats } from "../src";
+
+jest.useFakeTimers();
+
+describe("LeaseSender", () => {
+  describe("fixedRate", () => {
+    it("Sends a lease immediately and then on the configured period", () => {
+      const mockSink = mock<LeaseSink>();
+      const sender = LeaseSender.fixedRate({
+        ttl: 1000,
+        requestCount: 10,
+        period: 500,
+      });
+
+      const subscription = sender.start(mock<LeaseStats>(), mockSink);
+
+      expect(mockSink.send).toBeCalledTimes(1);
+      expect(mockSink.send).toBeCalledWith({
+        ttl: 1000,
+        requestCount: 10,
+        metadata: undefined,
+      });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockSink.send).toBeCalledTimes(3);
+
+      subscription.cancel();
+      jest.advanceTimersByTime(1000);
+
+      expect(mockSink.send).toBeCalledTimes(3);
+    });
+  });
+
+  describe("concurrencyLimit", () => {
+    it("Grants only the remaining concurrency", () => {
+      const mockSink = mock<LeaseSink>();
+      const stats = { activeStreams: 3, latencies: [], availableLease: 0 };
+      const sender = LeaseSender.concurrencyLimit({
+        maxConcurrency: 5,
+        ttl: 1000,
+      });
+
+      const subscription = sender.start(stats, mockSink);
+
+      expect(mockSink.send).toBeCalledWith({ ttl: 1000, requestCount: 2 });
+
+      stats.activeStreams = 5;
+      jest.advanceTimersByTime(1000);
+
+      // zero request lease is not sent
+      expect(mockSink.send).toBeCalledTimes(1);
+
+      subscription.cancel();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { mock } from "jest-mock-extended";
+import {
+  Availability,
+  Backoff,
+  Cancellable,
+  ClientTransport,
+  ErrorCodes,
+  LoadbalanceRSocket,
+  LoadbalanceStrategy,
+  LoadbalanceTarget,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  RSocket,
+  RSocketError,
+} from "../src";
+
+async function flush() {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+function target(
+  inFlight: number,
+  latency: number,
+  availability: number = 1
+): LoadbalanceTarget {
+  return {
+    transport: mock<ClientTransport>(),
+    inFlight,
+    latency,
+    availability,
+  };
+}
+
+function connectedRSocket(smoothedRtt?: number) {
+  const rsocket = mock<RSocket & Availability>({
+    availability: 1,
+    smoothedRtt,
+  });
+  rsocket.requestResponse.mockReturnValue(
+    mock<Cancellable & OnExtensionSubscriber>()
+  );
+  const disconnect = (error?: Error) =>
+    rsocket.onClose.mock.calls.forEach(([callback]) => callback(error));
+  return { rsocket, disconnect };
+}
+
+describe("LoadbalanceStrategy", () => {
+  it("roundRobin selects the targets in turn", () => {
+    const strategy = LoadbalanceStrategy.roundRobin();
+    const targets = [target(0, 0), target(0, 0), target(0, 0)];
+
+    expect(strategy.select(targets)).toBe(targets[0]);
+    expect(strategy.select(targets)).toBe(targets[1]);
+    expect(strategy.select(targets)).toBe(targets[2]);
+    expect(strategy.select(targets)).toBe(targets[0]);
+  });
+
+  it("weightedLeastLoaded selects the target with the least load", () => {
+    const strategy = LoadbalanceStrategy.weightedLeastLoaded();
+
+    const loaded = [target(2, 10), target(1, 10), target(0, 100)];
+    const unmeasured = [target(5, 10), target(0, 0)];
+
+    expect(strategy.select(loaded)).toBe(loaded[1]);
+    expect(strategy.select(unmeasured)).toBe(unmeasured[1]);
+  });
+
+  it("weightedLeastLoaded weights the load by the availability", () => {
+    const strategy = LoadbalanceStrategy.weightedLeastLoaded();
+    const targets = [target(0, 10, 0.25), target(1, 10, 1)];
+
+    expect(strategy.select(targets)).toBe(targets[1]);
+  });
+});
+
+describe("LoadbalanceRSocket", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function subscriber() {
+    return mock<
+      OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+    >();
+  }
+
+  it("balances requests across the connected targets", async () => {
+    const first = connectedRSocket();
+    const second = connectedRSocket();
+    const firstTransport = mock<ClientTransport>();
+    const secondTransport = mock<ClientTransport>();
+    const connect = jest.fn((transport: ClientTransport) =>
+      Promise.resolve(
+        transport === firstTransport ? first.rsocket : second.rsocket
+      )
+    );
+    const rsocket = new LoadbalanceRSocket(connect, [
+      firstTransport,
+      secondTransport,
+    ]);
+    await flush();
+
+    rsocket.requestResponse({ data: Buffer.from("1") }, subscriber());
+    rsocket.requestResponse({ data: Buffer.from("2") }, subscriber());
+
+    expect(first.rsocket.requestResponse).toBeCalledTimes(1);
+    expect(second.rsocket.requestResponse).toBeCalledTimes(1);
+
+    first.disconnect(new Error("lost"));
+    rsocket.requestResponse({ data: Buffer.from("3") }, subscriber());
+    rsocket.requestResponse({ data: Buffer.from("4") }, subscriber());
+
+    expect(first.rsocket.requestResponse).toBeCalledTimes(1);
+    expect(second.rsocket.requestResponse).toBeCalledTimes(3);
+  });
+
+  it("uses the keep-alive round trip time until the latency is measured", async () => {
+    const first = connectedRSocket(100);
+    const second = connectedRSocket(10);
+    const transports = [mock<ClientTransport>(), mock<ClientTransport>()];
+    const connect = jest.fn((transport: ClientTransport) =>
+      Promise.resolve(
+        transport === transports[0] ? first.rsocket : second.rsocket
+      )
+    );
+    const rsocket = new LoadbalanceRSocket(connect, transports, {
+      strategy: LoadbalanceStrategy.weightedLeastLoaded(),
+    });
+    await flush();
+
+    rsocket.requestResponse({ data: Buffer.from("1") }, subscriber());
+    rsocket.requestResponse({ data: Buffer.from("2") }, subscriber());
+
+    expect(first.rsocket.requestResponse).not.toBeCalled();
+    expect(second.rsocket.requestResponse).toBeCalledTimes(2);
+  });
+
+  it("tracks in flight requests and latency", async () => {
+    const first = connectedRSocket();
+    const second = connectedRSocket();
+    const transports = [mock<ClientTransport>(), mock<ClientTransport>()];
+    const connect = jest.fn((transport: ClientTransport) =>
+      Promise.resolve(
+        transport === transports[0] ? first.rsocket : second.rsocket
+      )
+    );
+    const rsocket = new LoadbalanceRSocket(connect, transports, {
+      strategy: LoadbalanceStrategy.weightedLeastLoaded(),
+    });
+    await flush();
+
+    const responder = subscriber();
+    rsocket.requestResponse({ data: Buffer.from("1") }, responder);
+    rsocket.requestResponse({ data: Buffer.from("2") }, subscriber());
+    const cancellable = rsocket.requestResponse(
+      { data: Buffer.from("3") },
+      subscriber()
+    );
+
+    // the first target has one request in flight, the second one has two
+    expect(first.rsocket.requestResponse).toBeCalledTimes(2);
+    expect(second.rsocket.requestResponse).toBeCalledTimes(1);
+
+    cancellable.cancel();
+    jest.advanceTimersByTime(50);
+    const [, receiver] = first.rsocket.requestResponse.mock.calls[0];
+    receiver.onNext({ data: Buffer.from("response") }, true);
+
+    expect(responder.onNext).toBeCalledWith(
+      { data: Buffer.from("response") },
+      true
+    );
+
+    // the first target has no request in flight but a latency of 50ms, the
+    // second one has a request in flight and no latency measured
+    rsocket.requestResponse({ data: Buffer.from("4") }, subscriber());
+
+    expect(second.rsocket.requestResponse).toBeCalledTimes(2);
+  });
+
+  it("skips the targets which are not available", async () => {
+    const first = connectedRSocket();
+    const second = connectedRSocket();
+    const transports = [mock<ClientTransport>(), mock<ClientTransport>()];
+    const connect = jest
+      .fn()
+      .mockResolvedValueOnce(first.rsocket)
+      .mockResolvedValueOnce(second.rsocket);
+    const rsocket = new LoadbalanceRSocket(connect, transports);
+    await flush();
+
+    Object.assign(first.rsocket, { availability: 0 });
+    rsocket.requestResponse({ data: Buffer.from("1") }, subscriber());
+    rsocket.requestResponse({ data: Buffer.from("2") }, subscriber());
+
+    expect(rsocket.availability).toBe(1);
+    expect(first.rsocket.requestResponse).not.toBeCalled();
+    expect(second.rsocket.requestResponse).toBeCalledTimes(2);
+  });
+
+  it("fails requests when no target is available", () => {
+    const rsocket = new LoadbalanceRSocket(
+      () => new Promise(() => {}),
+      [mock<ClientTransport>()]
+    );
+    const responder = subscriber();
+
+    rsocket.requestResponse({ data: Buffer.from("hello") }, responder);
+
+    expect(responder.onError).toBeCalledWith(
+      new RSocketError(ErrorCodes.REJECTED, "No available target")
+    );
+  });
+
+  it("disposes the connections to the removed targets", async () => {
+    const first = connectedRSocket();
+    const second = connectedRSocket();
+    const transports = [mock<ClientTransport>(), mock<ClientTransport>()];
+    const connect = jest
+      .fn()
+      .mockResolvedValueOnce(first.rsocket)
+      .mockResolvedValueOnce(second.rsocket);
+    const rsocket = new LoadbalanceRSocket(connect, [transports[0]]);
+    await flush();
+
+    rsocket.update([transports[1]]);
+    await flush();
+    rsocket.requestResponse({ data: Buffer.from("hello") }, subscriber());
+
+    expect(first.rsocket.dispose).toBeCalled();
+    expect(connect).toBeCalledWith(transports[1]);
+    expect(second.rsocket.requestResponse).toBeCalled();
+    expect(first.rsocket.requestResponse).not.toBeCalled();
+  });
+
+  it("redials the targets closed after max attempts", async () => {
+    const connected = connectedRSocket();
+    const transport = mock<ClientTransport>();
+    const connect = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("refused"))
+      .mockResolvedValueOnce(connected.rsocket);
+    const rsocket = new LoadbalanceRSocket(connect, [transport], {
+      reconnect: { backoff: Backoff.fixed(100), maxAttempts: 1 },
+    });
+    await flush();
+
+    expect(rsocket.availability).toBe(0);
+
+    jest.advanceTimersByTime(100);
+    await flush();
+    rsocket.requestResponse({ data: Buffer.from("hello") }, subscriber());
+
+    expect(connect).toBeCalledTimes(2);
+    expect(connected.rsocket.requestResponse).toBeCalled();
+  });
+
+  it("does not redial the removed targets", async () => {
+    const transport = mock<ClientTransport>();
+    const connect = jest.fn().mockRejectedValue(new Error("refused"));
+    const rsocket = new LoadbalanceRSocket(connect, [transport], {
+      reconnect: { backoff: Backoff.fixed(100), maxAttempts: 1 },
+    });
+    await flush();
+
+    rsocket.update([]);
+    jest.advanceTimersByTime(100);
+    await flush();
+
+    expect(connect).toBeCalledTimes(1);
+  });
+});
@@ -0,0 +1,246 @@
+import { mock } from "jest-mock-extended";
+import {
+  Closeable,
+  Flags,
+  FrameTypes,
+  InMemoryMetricsRegistry,
+  Outbound,
+  RSocketMetrics,
+  StreamFrameHandler,
+  StreamLifecycleHandler,
+} from "../src";
+import {
+  ClientServerInputMultiplexerDemultiplexer,
+  StreamIdGenerator,
+} from "../src/ClientServerMultiplexerDemultiplexer";
+import { LeaseHandler } from "../src/RSocketSupport";
+
+describe("InMemoryMetricsRegistry", () => {
+  it("renders the metrics in the Prometheus text format", () => {
+    const registry = new InMemoryMetricsRegistry([0.1, 1]);
+
+    registry.counter("requests_total", "Requests.", { type: "a" }).increment();
+    registry.counter("requests_total", "Requests.", { type: "a" }).increment(2);
+    registry.counter("requests_total", "Requests.", { type: 'b"' }).increment();
+    registry.gauge("active", "Active.").set(5);
+    registry.gauge("active", "Active.").decrement();
+    registry.histogram("latency_seconds", "Latency.").record(0.05);
+    registry.histogram("latency_seconds", "Latency.").record(0.5);
+    registry.histogram("latency_seconds", "Latency.").record(2);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests.",
+        "# TYPE requests_total counter",
+        'requests_total{type="a"} 3',
+        'requests_total{type="b\\""} 1',
+        "# HELP active Active.",
+        "# TYPE active gauge",
+        "active 4",
+        "# HELP latency_seconds Latency.",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        "latency_seconds_sum 2.55",
+        "latency_seconds_count 3",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("adds the bucket label to the existing labels", () => {
+    const registry = new InMemoryMetricsRegistry([1]);
+
+    registry.histogram("latency_seconds", "Latency.", { type: "a" }).record(1);
+
+    expect(registry.render()).toContain(
+      'latency_seconds_bucket{type="a",le="1"} 1'
+    );
+  });
+
+  it("rejects a metric registered with another type", () => {
+    const registry = new InMemoryMetricsRegistry();
+
+    registry.counter("metric", "Metric.");
+
+    expect(() => registry.gauge("metric", "Metric.")).toThrow(
+      "Metric [metric] has already been registered as a counter"
+    );
+  });
+
+  it("rejects decrementing a counter", () => {
+    const registry = new InMemoryMetricsRegistry();
+
+    expect(() => registry.counter("metric", "Metric.").increment(-1)).toThrow(
+      "Counter can not be decremented"
+    );
+  });
+});
+
+describe("RSocketMetrics", () => {
+  function multiplexer(registry: InMemoryMetricsRegistry) {
+    const outbound = mock<Outbound & Closeable>();
+    return new ClientServerInputMultiplexerDemultiplexer(
+      StreamIdGenerator.create(-1),
+      outbound,
+      outbound,
+      true,
+      new RSocketMetrics(registry)
+    );
+  }
+
+  function requestStream(requestN: number) {
+    const handler = mock<StreamFrameHandler & StreamLifecycleHandler>({
+      streamType: FrameTypes.REQUEST_STREAM,
+    });
+    handler.handleReady.mockImplementation((streamId, stream) => {
+      Object.assign(handler, { streamId });
+      stream.connect(handler);
+      stream.send({
+        type: FrameTypes.REQUEST_STREAM,
+        streamId,
+        flags: Flags.NONE,
+        requestN,
+        data: Buffer.from("hello"),
+        metadata: undefined,
+      });
+      return true;
+    });
+    return handler;
+  }
+
+  it("records the connections, the streams and the frames", () => {
+    const registry = new InMemoryMetricsRegistry();
+    const connection = multiplexer(registry);
+    const handler = requestStream(5);
+
+    connection.createRequestStream(handler);
+    connection.handle({
+      type: FrameTypes.PAYLOAD,
+      streamId: 1,
+      flags: Flags.NEXT,
+      data: Buffer.from("world"),
+      metadata: undefined,
+    });
+
+    const metrics = registry.render();
+    expect(metrics).toContain("rsocket_connections_active 1");
+    expect(metrics).toContain(
+      'rsocket_streams_active{type="REQUEST_STREAM"} 1'
+    );
+    expect(metrics).toContain(
+      'rsocket_frames_total{direction="outbound",type="REQUEST_STREAM"} 1'
+    );
+    expect(metrics).toContain(
+      'rsocket_frames_total{direction="inbound",type="PAYLOAD"} 1'
+    );
+    expect(metrics).toContain(
+      'rsocket_frame_bytes_total{direction="inbound",type="PAYLOAD"} 11'
+    );
+    expect(metrics).toContain(
+      'rsocket_request_n_outstanding{direction="inbound"} 4'
+    );
+
+    connection.close();
+
+    const closedMetrics = registry.render();
+    expect(closedMetrics).toContain("rsocket_connections_active 0");
+    expect(closedMetrics).toContain(
+      'rsocket_streams_active{type="REQUEST_STREAM"} 0'
+    );
+    expect(closedMetrics).toContain(
+      'rsocket_request_n_outstanding{direction="inbound"} 0'
+    );
+  });
+
+  it("tracks the request N credit until the stream is terminated", () => {
+    const registry = new InMemoryMetricsRegistry();
+    const connection = multiplexer(registry);
+    const handler = requestStream(1);
+
+    connection.createRequestStream(handler);
+    connection.send({
+      type: FrameTypes.REQUEST_N,
+      streamId: 1,
+      flags: Flags.NONE,
+      requestN: 2,
+    });
+
+    expect(registry.render()).toContain(
+      'rsocket_request_n_outstanding{direction="inbound"} 3'
+    );
+
+    connection.disconnect(handler);
+
+    const metrics = registry.render();
+    expect(metrics).toContain(
+      'rsocket_request_n_outstanding{direction="inbound"} 0'
+    );
+    expect(metrics).toContain(
+      'rsocket_streams_active{type="REQUEST_STREAM"} 0'
+    );
+  });
+
+  it("excludes the unbounded streams from the request N credit", () => {
+    const registry = new InMemoryMetricsRegistry();
+    const connection = multiplexer(registry);
+
+    connection.createRequestStream(requestStream(1));
+    connection.send({
+      type: FrameTypes.REQUEST_N,
+      streamId: 1,
+      flags: Flags.NONE,
+      requestN: 0x7fffffff,
+    });
+
+    expect(registry.render()).toContain(
+      'rsocket_request_n_outstanding{direction="inbound"} 0'
+    );
+  });
+
+  it("counts the fragments", () => {
+    const registry = new InMemoryMetricsRegistry();
+    const connection = multiplexer(registry);
+
+    connection.createRequestStream(requestStream(1));
+    connection.handle({
+      type: FrameTypes.PAYLOAD,
+      streamId: 1,
+      flags: Flags.NEXT | Flags.FOLLOWS,
+      data: Buffer.from("wor"),
+      metadata: undefined,
+    });
+
+    const metrics = registry.render();
+    expect(metrics).toContain('rsocket_fragments_total{direction="inbound"} 1');
+    expect(metrics).toContain(
+      'rsocket_request_n_outstanding{direction="inbound"} 1'
+    );
+  });
+
+  it("records the lease usage", () => {
+    const registry = new InMemoryMetricsRegistry();
+    const leaseHandler = new LeaseHandler(
+      1,
+      mock<ClientServerInputMultiplexerDemultiplexer>(),
+      new RSocketMetrics(registry)
+    );
+
+    leaseHandler.handle({
+      type: FrameTypes.LEASE,
+      streamId: 0,
+      flags: Flags.NONE,
+      ttl: 1000,
+      requestCount: 10,
+      metadata: undefined,
+    });
+    leaseHandler.requestLease(
+      mock<StreamFrameHandler & StreamLifecycleHandler>()
+    );
+
+    const metrics = registry.render();
+    expect(metrics).toContain("rsocket_lease_granted_requests_total 10");
+    expect(metrics).toContain("rsocket_lease_used_requests_total 1");
+  });
+});
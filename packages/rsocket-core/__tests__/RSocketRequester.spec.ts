@@ -0,0 +1,428 @@
+import { mock } from "jest-mock-extended";
+import {
+  ConnectionCloseError,
+  Demultiplexer,
+  DuplexConnection,
+  ErrorCodes,
+  Flags,
+  FrameHandler,
+  FrameTypes,
+  Multiplexer,
+  Outbound,
+  Stream,
+  TimeoutError,
+} from "../src";
+import {
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+} from "../src/RSocket";
+import { LeaseHandler, RSocketRequester } from "../src/RSocketSupport";
+
+describe("RSocketRequester", () => {
+  describe("metadataPush", () => {
+    it("Sends METADATA_PUSH frame on stream 0 and signals completion", () => {
+      const mockOutbound = mock<Outbound>();
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mockOutbound,
+        }),
+      });
+      const mockSubscriber = mock<OnTerminalSubscriber>();
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+
+      requester.metadataPush(Buffer.from("hello"), mockSubscriber);
+
+      expect(mockOutbound.send).toBeCalledWith({
+        type: FrameTypes.METADATA_PUSH,
+        streamId: 0,
+        flags: Flags.METADATA,
+        metadata: Buffer.from("hello"),
+      });
+      expect(mockSubscriber.onComplete).toBeCalled();
+      expect(mockSubscriber.onError).not.toBeCalled();
+    });
+
+    it("Signals error if the frame can not be sent", () => {
+      const error = new Error("boom");
+      const mockOutbound = mock<Outbound>();
+      mockOutbound.send.mockImplementation(() => {
+        throw error;
+      });
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mockOutbound,
+        }),
+      });
+      const mockSubscriber = mock<OnTerminalSubscriber>();
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+
+      requester.metadataPush(Buffer.from("hello"), mockSubscriber);
+
+      expect(mockSubscriber.onError).toBeCalledWith(error);
+      expect(mockSubscriber.onComplete).not.toBeCalled();
+    });
+  });
+
+  describe("onExtension", () => {
+    it("Sends EXT frame on stream 0", () => {
+      const mockOutbound = mock<Outbound>();
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mockOutbound,
+        }),
+      });
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+
+      requester.onExtension(1, Buffer.from("hello"), true);
+
+      expect(mockOutbound.send).toBeCalledWith({
+        type: FrameTypes.EXT,
+        streamId: 0,
+        flags: Flags.IGNORE,
+        extendedType: 1,
+        extendedContent: Buffer.from("hello"),
+      });
+    });
+  });
+
+  describe("dispose", () => {
+    it("Sends ERROR[CONNECTION_CLOSE] and closes the connection once drained", async () => {
+      const mockOutbound = mock<Outbound>();
+      let drained: () => void;
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mockOutbound,
+          drain: jest.fn(
+            () => new Promise<void>((resolve) => (drained = resolve))
+          ),
+        }),
+      });
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+
+      const disposed = requester.dispose({ drainTimeout: 1000 });
+
+      expect(mockConnection.multiplexerDemultiplexer.drain).toBeCalledWith(
+        1000
+      );
+      expect(mockOutbound.send).not.toBeCalled();
+      expect(mockConnection.close).not.toBeCalled();
+
+      drained();
+      await disposed;
+
+      expect(mockOutbound.send).toBeCalledWith({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: ErrorCodes.CONNECTION_CLOSE,
+        message: "Connection is closed",
+      });
+      expect(mockConnection.close).toBeCalledWith();
+    });
+
+    it("Does not send ERROR[CONNECTION_CLOSE] if the connection closed while draining", async () => {
+      const mockOutbound = mock<Outbound>();
+      let drained: () => void;
+      let closed: () => void;
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mockOutbound,
+          drain: jest.fn(
+            () => new Promise<void>((resolve) => (drained = resolve))
+          ),
+        }),
+        onClose: jest.fn((callback) => (closed = callback)),
+      });
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+
+      const disposed = requester.dispose();
+
+      closed();
+      drained();
+      await disposed;
+
+      expect(mockOutbound.send).not.toBeCalled();
+      expect(mockConnection.close).not.toBeCalled();
+    });
+
+    it("Rejects the requests waiting for a lease", async () => {
+      const mockMultiplexer = mock<Multiplexer & Demultiplexer & FrameHandler>({
+        connectionOutbound: mock<Outbound>(),
+        drain: jest.fn(() => Promise.resolve()),
+      });
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mockMultiplexer,
+      });
+      const requester = new RSocketRequester(
+        mockConnection,
+        0,
+        new LeaseHandler(10, mockMultiplexer)
+      );
+      const mockSubscriber = mock<
+        OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+      >();
+
+      requester.requestResponse({ data: Buffer.from("hello") }, mockSubscriber);
+
+      expect(mockSubscriber.onError).not.toBeCalled();
+
+      await requester.dispose();
+
+      expect(mockSubscriber.onError).toBeCalledWith(
+        expect.any(ConnectionCloseError)
+      );
+      expect(mockMultiplexer.createRequestStream).not.toBeCalled();
+    });
+  });
+
+  describe("timeout", () => {
+    function connect() {
+      const mockStream = mock<Stream>();
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          createRequestStream: (handler) => {
+            handler.handleReady(1, mockStream);
+          },
+        }),
+      });
+      return { mockStream, mockConnection };
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("Cancels the request and fails the subscriber with TimeoutError", () => {
+      const { mockStream, mockConnection } = connect();
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+      const mockSubscriber = mock<
+        OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+      >();
+
+      requester.requestResponse(
+        { data: Buffer.from("hello") },
+        mockSubscriber,
+        { timeout: 100 }
+      );
+      jest.advanceTimersByTime(99);
+
+      expect(mockSubscriber.onError).not.toBeCalled();
+
+      jest.advanceTimersByTime(1);
+
+      expect(mockStream.send).toBeCalledWith({
+        type: FrameTypes.CANCEL,
+        flags: Flags.NONE,
+        streamId: 1,
+      });
+      expect(mockSubscriber.onError).toBeCalledWith(
+        new TimeoutError("Request timed out after 100 ms")
+      );
+      expect(mockSubscriber.onError.mock.calls[0][0]).toBeInstanceOf(
+        TimeoutError
+      );
+    });
+
+    it("Applies the default timeout", () => {
+      const { mockConnection } = connect();
+      const requester = new RSocketRequester(
+        mockConnection,
+        0,
+        undefined,
+        undefined,
+        100
+      );
+      const mockSubscriber = mock<
+        OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+      >();
+
+      requester.requestStream(
+        { data: Buffer.from("hello") },
+        1,
+        mockSubscriber
+      );
+      jest.advanceTimersByTime(100);
+
+      expect(mockSubscriber.onError).toBeCalledWith(
+        new TimeoutError("Request timed out after 100 ms")
+      );
+    });
+
+    it("Does not fail the subscriber once the request is terminated", () => {
+      const { mockStream, mockConnection } = connect();
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+      const mockSubscriber = mock<
+        OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+      >();
+
+      requester.requestResponse(
+        { data: Buffer.from("hello") },
+        mockSubscriber,
+        { timeout: 100 }
+      );
+      const [handler] = mockStream.connect.mock.calls[0];
+      handler.handle({
+        type: FrameTypes.PAYLOAD,
+        flags: Flags.NEXT | Flags.COMPLETE,
+        streamId: 1,
+        data: Buffer.from("world"),
+        metadata: undefined,
+      });
+      jest.advanceTimersByTime(100);
+
+      expect(mockSubscriber.onNext).toBeCalledWith(
+        { data: Buffer.from("world"), metadata: undefined },
+        true
+      );
+      expect(mockSubscriber.onError).not.toBeCalled();
+      expect(mockStream.send).not.toBeCalledWith(
+        expect.objectContaining({ type: FrameTypes.CANCEL })
+      );
+    });
+
+    it("Does not fail the subscriber once the request is cancelled", () => {
+      const { mockStream, mockConnection } = connect();
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+      const mockSubscriber = mock<
+        OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+      >();
+
+      const cancellable = requester.requestResponse(
+        { data: Buffer.from("hello") },
+        mockSubscriber,
+        { timeout: 100 }
+      );
+      cancellable.cancel();
+      jest.advanceTimersByTime(100);
+
+      expect(mockStream.send).toBeCalledWith({
+        type: FrameTypes.CANCEL,
+        flags: Flags.NONE,
+        streamId: 1,
+      });
+      expect(mockSubscriber.onError).not.toBeCalled();
+    });
+
+    it("Propagates the remaining time with the deadline encoder", () => {
+      const { mockStream, mockConnection } = connect();
+      const deadlineEncoder = jest.fn(() => Buffer.from("deadline"));
+      const requester = new RSocketRequester(
+        mockConnection,
+        0,
+        undefined,
+        undefined,
+        undefined,
+        deadlineEncoder
+      );
+
+      requester.fireAndForget(
+        { data: Buffer.from("hello"), metadata: Buffer.from("metadata") },
+        mock<OnTerminalSubscriber>(),
+        { timeout: 100 }
+      );
+      requester.fireAndForget(
+        { data: Buffer.from("hello") },
+        mock<OnTerminalSubscriber>()
+      );
+
+      expect(deadlineEncoder).toBeCalledTimes(1);
+      expect(deadlineEncoder).toBeCalledWith(Buffer.from("metadata"), 100);
+      expect(mockStream.send).toBeCalledWith(
+        expect.objectContaining({
+          type: FrameTypes.REQUEST_FNF,
+          metadata: Buffer.from("deadline"),
+        })
+      );
+    });
+  });
+
+  describe("availability", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("Combines the availability of the connection, lease and keep-alive", () => {
+      const mockConnection = mock<DuplexConnection>({
+        availability: 1,
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >(),
+      });
+      const leaseHandler = new LeaseHandler(
+        1,
+        mockConnection.multiplexerDemultiplexer
+      );
+      const requester = new RSocketRequester(
+        mockConnection,
+        0,
+        leaseHandler,
+        undefined,
+        undefined,
+        undefined,
+        { availability: 0.5 }
+      );
+
+      // no lease received yet
+      expect(requester.availability).toBe(0);
+
+      leaseHandler.handle({
+        type: FrameTypes.LEASE,
+        streamId: 0,
+        flags: Flags.NONE,
+        ttl: 1000,
+        requestCount: 4,
+        metadata: undefined,
+      });
+      requester.fireAndForget(
+        { data: Buffer.from("hello") },
+        mock<OnTerminalSubscriber>()
+      );
+
+      expect(requester.availability).toBe(0.375);
+
+      jest.advanceTimersByTime(1000);
+
+      expect(requester.availability).toBe(0);
+    });
+
+    it("Is not available once disposed", () => {
+      const mockConnection = mock<DuplexConnection>({
+        availability: 1,
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mock<Outbound>(),
+          drain: () => new Promise(() => {}),
+        }),
+      });
+      const requester = new RSocketRequester(mockConnection, 0, undefined);
+
+      expect(requester.availability).toBe(1);
+
+      requester.dispose();
+
+      expect(requester.availability).toBe(0);
+    });
+  });
+});
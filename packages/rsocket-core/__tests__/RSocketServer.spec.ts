@@ -1,13 +1,24 @@
 import {
   Closeable,
+  ConnectionInfo,
+  Demultiplexer,
   DuplexConnection,
   ErrorCodes,
+  Flags,
   Frame,
+  FrameHandler,
   FrameTypes,
+  Multiplexer,
   Outbound,
+  PeerCertificate,
+  ResumableSession,
+  ResumeFrame,
   RSocketError,
   RSocketServer,
+  ServerConfig,
   ServerTransport,
+  SessionStore,
+  SetupFrame,
 } from "../src";
 import { mock } from "jest-mock-extended";
 import {
@@ -71,4 +82,394 @@ describe("RSocketServer", () => {
       });
     }
   });
+
+  describe("When receiving SETUP frame", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function setupFrame(overrides: Partial<SetupFrame> = {}): SetupFrame {
+      return {
+        type: FrameTypes.SETUP,
+        streamId: 0,
+        flags: Flags.NONE,
+        dataMimeType: "application/json",
+        metadataMimeType: "message/x.rsocket.composite-metadata.v0",
+        keepAlive: 60000,
+        lifetime: 300000,
+        majorVersion: 1,
+        minorVersion: 0,
+        resumeToken: undefined,
+        data: undefined,
+        metadata: undefined,
+        ...overrides,
+      };
+    }
+
+    async function accept(
+      frame: SetupFrame,
+      setup?: ServerConfig["setup"]
+    ): Promise<DuplexConnection> {
+      const mockTransport = mock<ServerTransport>();
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mock<Outbound>(),
+        }),
+      });
+      mockTransport.bind.mockImplementation(async (acceptor) => {
+        await acceptor(frame, mockConnection);
+        return mock<Closeable>();
+      });
+      const server = new RSocketServer({
+        transport: mockTransport,
+        acceptor: {
+          accept: async () => ({}),
+        },
+        setup,
+      });
+      await server.bind();
+      return mockConnection;
+    }
+
+    const invalidSetups: Array<[string, Partial<SetupFrame>]> = [
+      ["keepalive interval", { keepAlive: 0 }],
+      ["keepalive max lifetime", { lifetime: -1 }],
+      ["data MIME type", { dataMimeType: "" }],
+      ["metadata MIME type", { metadataMimeType: "текст/plain" }],
+    ];
+
+    for (const [name, overrides] of invalidSetups) {
+      it(`invalid ${name} is rejected with an INVALID_SETUP error`, async () => {
+        const connection = await accept(setupFrame(overrides));
+
+        expect(connection.close).toBeCalledWith(
+          expect.objectContaining({
+            code: ErrorCodes.INVALID_SETUP,
+            message: expect.stringContaining(`Invalid ${name}`),
+          })
+        );
+      });
+    }
+
+    it("unsupported version is rejected with an UNSUPPORTED_SETUP error", async () => {
+      const connection = await accept(setupFrame({ majorVersion: 2 }));
+
+      expect(connection.close).toBeCalledWith(
+        expect.objectContaining({
+          code: ErrorCodes.UNSUPPORTED_SETUP,
+          message: "Unsupported protocol version [2.0]",
+        })
+      );
+    });
+
+    it("accepts configured versions", async () => {
+      const connection = await accept(
+        setupFrame({ majorVersion: 1, minorVersion: 1 }),
+        {
+          supportedVersions: [
+            { majorVersion: 1, minorVersion: 0 },
+            { majorVersion: 1, minorVersion: 1 },
+          ],
+        }
+      );
+
+      expect(connection.close).not.toBeCalled();
+    });
+
+    it("unsupported MIME types are rejected with an UNSUPPORTED_SETUP error", async () => {
+      const connection = await accept(setupFrame(), {
+        dataMimeTypes: ["application/cbor"],
+      });
+
+      expect(connection.close).toBeCalledWith(
+        expect.objectContaining({
+          code: ErrorCodes.UNSUPPORTED_SETUP,
+          message: "Unsupported data MIME type [application/json]",
+        })
+      );
+    });
+
+    it("accepts configured MIME types", async () => {
+      const connection = await accept(setupFrame(), {
+        dataMimeTypes: ["application/cbor", "application/json"],
+        metadataMimeTypes: ["message/x.rsocket.composite-metadata.v0"],
+      });
+
+      expect(connection.close).not.toBeCalled();
+    });
+
+    it("passes the connection info and the context to the acceptor", async () => {
+      const mockTransport = mock<ServerTransport>();
+      const peerCertificate = mock<PeerCertificate>();
+      const connectionInfo: ConnectionInfo = {
+        transport: "tls",
+        remoteAddress: "127.0.0.1",
+        remotePort: 12345,
+        tls: { authorized: true, peerCertificate },
+      };
+      const context = { user: "alice" };
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mock<Outbound>(),
+        }),
+        connectionInfo,
+        context,
+      });
+      mockTransport.bind.mockImplementation(async (acceptor) => {
+        await acceptor(setupFrame(), mockConnection);
+        return mock<Closeable>();
+      });
+      const accept = jest.fn(async () => ({}));
+      const server = new RSocketServer({
+        transport: mockTransport,
+        acceptor: { accept },
+      });
+
+      await server.bind();
+
+      expect(accept).toBeCalledWith(
+        expect.objectContaining({ context }),
+        expect.anything(),
+        connectionInfo
+      );
+    });
+
+    it("passes the connection info to the responder requests", async () => {
+      const mockTransport = mock<ServerTransport>();
+      const mockOutbound = mock<Outbound & Closeable>();
+      const connectionInfo: ConnectionInfo = {
+        transport: "tcp",
+        remoteAddress: "127.0.0.1",
+        remotePort: 12345,
+      };
+      const multiplexerDemultiplexer =
+        new ClientServerInputMultiplexerDemultiplexer(
+          StreamIdGenerator.create(0),
+          mockOutbound,
+          mockOutbound
+        );
+      // not mocked, as the mock would intercept the demultiplexer calls
+      const connection = {
+        multiplexerDemultiplexer,
+        connectionInfo,
+        availability: 1,
+        close: jest.fn(),
+        onClose: jest.fn(),
+      };
+      mockTransport.bind.mockImplementation(async (acceptor) => {
+        await acceptor(setupFrame(), connection);
+        return mock<Closeable>();
+      });
+      const requestResponse = jest.fn(() => ({
+        cancel() {},
+        onExtension() {},
+      }));
+      const server = new RSocketServer({
+        transport: mockTransport,
+        acceptor: { accept: async () => ({ requestResponse }) },
+      });
+
+      await server.bind();
+      multiplexerDemultiplexer.handle({
+        type: FrameTypes.REQUEST_RESPONSE,
+        streamId: 1,
+        flags: Flags.NONE,
+        data: Buffer.from("hello"),
+        metadata: undefined,
+      });
+
+      expect(requestResponse).toBeCalledWith(
+        expect.objectContaining({ data: Buffer.from("hello") }),
+        expect.anything(),
+        { connectionInfo }
+      );
+    });
+
+    it("applies the interceptors", async () => {
+      const mockTransport = mock<ServerTransport>();
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: mock<
+          Multiplexer & Demultiplexer & FrameHandler
+        >({
+          connectionOutbound: mock<Outbound>(),
+        }),
+      });
+      mockTransport.bind.mockImplementation(async (acceptor) => {
+        await acceptor(setupFrame(), mockConnection);
+        return mock<Closeable>();
+      });
+      const calls: Array<string> = [];
+      const server = new RSocketServer({
+        transport: mockTransport,
+        acceptor: {
+          accept: async () => {
+            calls.push("accept");
+            return {};
+          },
+        },
+        interceptors: {
+          connection: [
+            (connection) => {
+              calls.push("connection");
+              return connection;
+            },
+          ],
+          acceptor: [
+            (acceptor) => ({
+              accept: (setup, requester) => {
+                calls.push("acceptor");
+                return acceptor.accept(setup, requester);
+              },
+            }),
+          ],
+          requester: [
+            (rsocket) => {
+              calls.push("requester");
+              return rsocket;
+            },
+          ],
+          responder: [
+            (responder) => {
+              calls.push("responder");
+              return responder;
+            },
+          ],
+        },
+      });
+
+      await server.bind();
+
+      expect(calls).toEqual([
+        "connection",
+        "requester",
+        "acceptor",
+        "accept",
+        "responder",
+      ]);
+    });
+  });
+
+  describe("When receiving RESUME frame", () => {
+    const resumeFrame: ResumeFrame = {
+      type: FrameTypes.RESUME,
+      streamId: 0,
+      flags: Flags.NONE,
+      majorVersion: 1,
+      minorVersion: 0,
+      resumeToken: Buffer.from("token"),
+      clientPosition: 0,
+      serverPosition: 0,
+    };
+
+    async function resume(session: ResumableSession): Promise<SessionStore> {
+      const mockTransport = mock<ServerTransport>();
+      const sessionStore = mock<SessionStore>();
+      sessionStore.resume.mockReturnValue(session);
+      mockTransport.bind.mockImplementation(
+        async (acceptor, multiplexerDemultiplexerFactory) => {
+          multiplexerDemultiplexerFactory(
+            resumeFrame,
+            mock<Outbound & Closeable>()
+          );
+          return mock<Closeable>();
+        }
+      );
+      await new RSocketServer({
+        transport: mockTransport,
+        acceptor: { accept: async () => ({}) },
+        resume: { sessionTimeout: 1000, sessionStore },
+      }).bind();
+      return sessionStore;
+    }
+
+    it("notifies the session store once the session is resumed", async () => {
+      const session = mock<ResumableSession>({ token: "token", done: false });
+
+      const sessionStore = await resume(session);
+
+      expect(sessionStore.resume).toBeCalledWith("token");
+      expect(session.resume).toBeCalled();
+      expect(sessionStore.resumed).toBeCalledWith("token");
+    });
+
+    it("does not notify the session store if the resume is rejected", async () => {
+      const session = mock<ResumableSession>({ token: "token" });
+      session.resume.mockImplementation(() =>
+        Object.assign(session, { done: true })
+      );
+
+      const sessionStore = await resume(session);
+
+      expect(session.resume).toBeCalled();
+      expect(sessionStore.resumed).not.toBeCalled();
+    });
+  });
+
+  describe("dispose()", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("stops accepting connections and closes established ones gracefully", async () => {
+      const mockTransport = mock<ServerTransport>();
+      const mockClosable = mock<Closeable>();
+      const mockOutbound = mock<Outbound & Closeable>();
+      const mockConnection = mock<DuplexConnection>({
+        multiplexerDemultiplexer: new ClientServerInputMultiplexerDemultiplexer(
+          StreamIdGenerator.create(0),
+          mockOutbound,
+          mockOutbound
+        ),
+      });
+      const setupFrame: SetupFrame = {
+        type: FrameTypes.SETUP,
+        streamId: 0,
+        flags: Flags.NONE,
+        dataMimeType: "application/octet-stream",
+        metadataMimeType: "application/octet-stream",
+        keepAlive: 60000,
+        lifetime: 300000,
+        majorVersion: 1,
+        minorVersion: 0,
+        resumeToken: undefined,
+        data: undefined,
+        metadata: undefined,
+      };
+      mockTransport.bind.mockImplementation(async (acceptor) => {
+        await acceptor(setupFrame, mockConnection);
+        return mockClosable;
+      });
+      const server = new RSocketServer({
+        transport: mockTransport,
+        acceptor: {
+          accept: async () => ({}),
+        },
+      });
+
+      const closeable = await server.bind();
+      await closeable.dispose({ drainTimeout: 100 });
+
+      expect(mockClosable.close).toBeCalled();
+      expect(mockOutbound.send).toBeCalledWith(
+        expect.objectContaining({
+          type: FrameTypes.ERROR,
+          streamId: 0,
+          code: ErrorCodes.CONNECTION_CLOSE,
+        })
+      );
+      expect(mockConnection.close).toBeCalledWith();
+    });
+  });
 });
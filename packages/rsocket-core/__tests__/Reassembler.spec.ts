@@ -0,0 +1,58 @@
+import * as Reassembler from "../src/Reassembler";
+
+describe("Reassembler", () => {
+  describe("add", () => {
+    it("accumulates fragments", () => {
+      const holder = {} as Reassembler.FragmentsHolder;
+
+      expect(
+        Reassembler.add(holder, Buffer.from("hello"), Buffer.from("meta"))
+      ).toBe(true);
+      expect(
+        Reassembler.add(holder, Buffer.from(" world"), Buffer.from("data"))
+      ).toBe(true);
+
+      expect(
+        Reassembler.reassemble(holder, Buffer.from("!"), undefined)
+      ).toEqual({
+        data: Buffer.from("hello world!"),
+        metadata: Buffer.from("metadata"),
+      });
+    });
+
+    it("returns false when accumulated payload exceeds maxInboundPayloadSize", () => {
+      const holder = {} as Reassembler.FragmentsHolder;
+
+      expect(
+        Reassembler.add(holder, Buffer.from("hello"), Buffer.from("meta"), 16)
+      ).toBe(true);
+      expect(
+        Reassembler.add(holder, Buffer.from(" world"), Buffer.from("data"), 16)
+      ).toBe(false);
+      expect(holder.data).toEqual(Buffer.from("hello"));
+      expect(holder.metadata).toEqual(Buffer.from("meta"));
+    });
+
+    it("returns false when the first fragment exceeds maxInboundPayloadSize", () => {
+      const holder = {} as Reassembler.FragmentsHolder;
+
+      expect(
+        Reassembler.add(holder, Buffer.from("hello"), Buffer.from("meta"), 8)
+      ).toBe(false);
+      expect(holder.hasFragments).toBeFalsy();
+    });
+  });
+
+  describe("reassemble", () => {
+    it("returns undefined when the payload exceeds maxInboundPayloadSize", () => {
+      const holder = {} as Reassembler.FragmentsHolder;
+      Reassembler.add(holder, Buffer.from("hello"), undefined, 8);
+
+      expect(
+        Reassembler.reassemble(holder, Buffer.from(" world"), undefined, 8)
+      ).toBeUndefined();
+      expect(holder.hasFragments).toBe(true);
+      expect(holder.data).toEqual(Buffer.from("hello"));
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { mock } from "jest-mock-extended";
+import {
+  Availability,
+  Backoff,
+  Cancellable,
+  ConnectionCloseError,
+  ErrorCodes,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  ReconnectingRSocket,
+  Requestable,
+  RSocket,
+  RSocketError,
+} from "../src";
+
+async function flush() {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+function connectedRSocket() {
+  const rsocket = mock<RSocket & Availability>({ availability: 1 });
+  const disconnect = (error?: Error) =>
+    rsocket.onClose.mock.calls.forEach(([callback]) => callback(error));
+  return { rsocket, disconnect };
+}
+
+describe("Backoff", () => {
+  it("exponential backoff grows up to the max delay", () => {
+    const backoff = Backoff.exponential({
+      initialDelay: 100,
+      maxDelay: 1000,
+      jitter: 0,
+    });
+
+    expect(backoff.delay(0)).toBe(100);
+    expect(backoff.delay(1)).toBe(200);
+    expect(backoff.delay(3)).toBe(800);
+    expect(backoff.delay(4)).toBe(1000);
+  });
+
+  it("exponential backoff applies jitter", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+    const backoff = Backoff.exponential({
+      initialDelay: 100,
+      maxDelay: 1000,
+      jitter: 0.5,
+    });
+
+    expect(backoff.delay(1)).toBe(150);
+
+    jest.spyOn(Math, "random").mockRestore();
+  });
+});
+
+describe("ReconnectingRSocket", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("reconnects with backoff once the connection is lost", async () => {
+    const first = connectedRSocket();
+    const second = connectedRSocket();
+    const connect = jest
+      .fn()
+      .mockResolvedValueOnce(first.rsocket)
+      .mockRejectedValueOnce(new Error("refused"))
+      .mockResolvedValueOnce(second.rsocket);
+    const states: Array<string> = [];
+    const rsocket = new ReconnectingRSocket(connect, {
+      backoff: Backoff.fixed(100),
+    });
+    rsocket.on("connecting", () => states.push("connecting"));
+    rsocket.on("connected", () => states.push("connected"));
+    rsocket.on("disconnected", (error) =>
+      states.push(`disconnected ${error?.message}`)
+    );
+
+    await rsocket.start();
+
+    expect(rsocket.availability).toBe(1);
+
+    first.disconnect(new Error("lost"));
+    await flush();
+
+    expect(rsocket.availability).toBe(0);
+
+    expect(rsocket.state).toBe("disconnected");
+    expect(connect).toBeCalledTimes(2);
+
+    jest.advanceTimersByTime(100);
+    await flush();
+
+    expect(rsocket.state).toBe("connected");
+    expect(connect).toBeCalledTimes(3);
+    expect(states).toEqual([
+      "connecting",
+      "connected",
+      "disconnected lost",
+      "connecting",
+      "disconnected refused",
+      "connecting",
+      "connected",
+    ]);
+  });
+
+  it("queues requests while disconnected", async () => {
+    const { rsocket: connected } = connectedRSocket();
+    let resolve: (rsocket: RSocket & Availability) => void;
+    const rsocket = new ReconnectingRSocket(
+      () => new Promise((r) => (resolve = r))
+    );
+    const subscriber = mock<
+      OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+    >();
+
+    const handler = mock<Requestable & Cancellable & OnExtensionSubscriber>();
+    connected.requestStream.mockReturnValue(handler);
+
+    const started = rsocket.start();
+    const requestable = rsocket.requestStream(
+      { data: Buffer.from("hello") },
+      1,
+      subscriber,
+      { timeout: 100 }
+    );
+    requestable.request(5);
+
+    expect(connected.requestStream).not.toBeCalled();
+
+    resolve(connected);
+    await started;
+
+    expect(connected.requestStream).toBeCalledWith(
+      { data: Buffer.from("hello") },
+      1,
+      subscriber,
+      { timeout: 100 }
+    );
+    expect(
+      connected.requestStream.mock.results[0].value.request
+    ).toBeCalledWith(5);
+  });
+
+  it("does not send requests cancelled while disconnected", async () => {
+    const { rsocket: connected } = connectedRSocket();
+    let resolve: (rsocket: RSocket & Availability) => void;
+    const rsocket = new ReconnectingRSocket(
+      () => new Promise((r) => (resolve = r))
+    );
+    const subscriber = mock<
+      OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+    >();
+
+    const started = rsocket.start();
+    rsocket
+      .requestResponse({ data: Buffer.from("hello") }, subscriber)
+      .cancel();
+    resolve(connected);
+    await started;
+
+    expect(connected.requestResponse).not.toBeCalled();
+    expect(subscriber.onError).not.toBeCalled();
+  });
+
+  it("fails requests while disconnected with the fail policy", () => {
+    const rsocket = new ReconnectingRSocket(() => new Promise(() => {}), {
+      whileDisconnected: "fail",
+    });
+    const subscriber = mock<OnTerminalSubscriber>();
+
+    rsocket.start();
+    rsocket.fireAndForget({ data: Buffer.from("hello") }, subscriber);
+
+    expect(subscriber.onError).toBeCalledWith(
+      new RSocketError(ErrorCodes.REJECTED, "Connection is not established")
+    );
+  });
+
+  it("fails requests exceeding max pending requests", () => {
+    const rsocket = new ReconnectingRSocket(() => new Promise(() => {}), {
+      maxPendingRequests: 1,
+    });
+    const first = mock<OnTerminalSubscriber>();
+    const second = mock<OnTerminalSubscriber>();
+
+    rsocket.start();
+    rsocket.fireAndForget({ data: Buffer.from("hello") }, first);
+    rsocket.fireAndForget({ data: Buffer.from("hello") }, second);
+
+    expect(first.onError).not.toBeCalled();
+    expect(second.onError).toBeCalledWith(
+      new RSocketError(
+        ErrorCodes.REJECTED,
+        "Max number of pending requests reached"
+      )
+    );
+  });
+
+  it("closes once max attempts are exhausted", async () => {
+    const error = new Error("refused");
+    const rsocket = new ReconnectingRSocket(() => Promise.reject(error), {
+      backoff: Backoff.fixed(100),
+      maxAttempts: 2,
+    });
+    const onClosed = jest.fn();
+    const subscriber = mock<OnTerminalSubscriber>();
+    rsocket.on("closed", onClosed);
+
+    const started = rsocket.start();
+    rsocket.fireAndForget({ data: Buffer.from("hello") }, subscriber);
+    await flush();
+    jest.advanceTimersByTime(100);
+
+    await expect(started).rejects.toBe(error);
+    expect(rsocket.state).toBe("closed");
+    expect(onClosed).toBeCalledWith(error);
+    expect(subscriber.onError).toBeCalledWith(error);
+  });
+
+  it("stops reconnecting once closed", async () => {
+    const { rsocket: connected, disconnect } = connectedRSocket();
+    const connect = jest.fn().mockResolvedValue(connected);
+    const rsocket = new ReconnectingRSocket(connect);
+    const subscriber = mock<OnTerminalSubscriber>();
+
+    await rsocket.start();
+    rsocket.close();
+    disconnect();
+    rsocket.fireAndForget({ data: Buffer.from("hello") }, subscriber);
+
+    expect(connected.close).toBeCalled();
+    expect(connect).toBeCalledTimes(1);
+    expect(rsocket.state).toBe("closed");
+    expect(subscriber.onError).toBeCalledWith(
+      new ConnectionCloseError("Connection is closed")
+    );
+  });
+
+  it("closes the connections which can not be disposed on dispose", async () => {
+    const connected = mock<RSocket & Availability>({
+      availability: 1,
+      dispose: undefined,
+    });
+    const rsocket = new ReconnectingRSocket(() => Promise.resolve(connected));
+
+    await rsocket.start();
+    await rsocket.dispose();
+
+    expect(connected.close).toBeCalled();
+    expect(rsocket.state).toBe("closed");
+  });
+});
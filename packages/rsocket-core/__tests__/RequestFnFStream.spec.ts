@@ -394,6 +394,67 @@ describe("RequestFnFStream Test", () => {
         expect(payload).toBeUndefined();
       });
 
+      it("Drops the request when the first fragment exceeds max inbound payload size", () => {
+        const mockStream = new MockStream();
+        const handler = jest.fn();
+        new RequestFnfResponderStream(
+          1,
+          mockStream,
+          handler,
+          {
+            type: FrameTypes.REQUEST_FNF,
+            flags: Flags.FOLLOWS | Flags.METADATA,
+            data: Buffer.from("hello"),
+            metadata: Buffer.from("world he"),
+            streamId: 1,
+          },
+          10
+        );
+
+        expect(mockStream.wasConnected).toBe(false);
+        expect(mockStream.frames).toMatchObject([]);
+        expect(handler).not.toBeCalled();
+      });
+
+      it("Drops the request when the reassembled payload exceeds max inbound payload size", () => {
+        const mockStream = new MockStream();
+        const handler = jest.fn();
+        const responder = new RequestFnfResponderStream(
+          1,
+          mockStream,
+          handler,
+          {
+            type: FrameTypes.REQUEST_FNF,
+            flags: Flags.FOLLOWS | Flags.METADATA,
+            data: undefined,
+            metadata: Buffer.from("world he"),
+            streamId: 1,
+          },
+          20
+        );
+
+        responder.handle({
+          type: FrameTypes.PAYLOAD,
+          flags: Flags.NEXT | Flags.FOLLOWS | Flags.METADATA,
+          data: Buffer.from("hello"),
+          metadata: Buffer.from("llo"),
+          streamId: 1,
+        });
+        responder.handle({
+          type: FrameTypes.PAYLOAD,
+          flags: Flags.NEXT,
+          data: Buffer.from(" world"),
+          metadata: undefined,
+          streamId: 1,
+        });
+
+        expect(mockStream.frames).toMatchObject([]);
+        expect(mockStream.handler).toBeUndefined();
+        expect(responder.data).toBeUndefined();
+        expect(responder.metadata).toBeUndefined();
+        expect(handler).not.toBeCalled();
+      });
+
       it("Cancel Reassembly on close", () => {
         const mockStream = new MockStream();
         const mockCancellable = mock<Cancellable>();
@@ -365,6 +365,49 @@ describe("RequestResponseStream Test", () => {
       });
     });
 
+    it("Cancels when the last fragment exceeds max inbound payload size", () => {
+      const mockStream = new MockStream();
+      const mockHandler = mock<
+        OnTerminalSubscriber & OnNextSubscriber & OnExtensionSubscriber
+      >();
+      const request = new RequestResponseRequesterStream(
+        { data: Buffer.from("hello") },
+        mockHandler,
+        0,
+        undefined,
+        8
+      );
+      request.handleReady(1, mockStream);
+
+      request.handle({
+        type: FrameTypes.PAYLOAD,
+        flags: Flags.NEXT | Flags.FOLLOWS,
+        data: Buffer.from("hello"),
+        metadata: undefined,
+        streamId: 1,
+      });
+      request.handle({
+        type: FrameTypes.PAYLOAD,
+        flags: Flags.NEXT | Flags.COMPLETE,
+        data: Buffer.from(" world"),
+        metadata: undefined,
+        streamId: 1,
+      });
+
+      expect(mockStream.frames[1]).toMatchObject({
+        type: FrameTypes.CANCEL,
+        streamId: 1,
+      });
+      expect(mockStream.handler).toBeUndefined();
+      expect(mockHandler.onNext).not.toBeCalled();
+      expect(mockHandler.onError).toBeCalledWith(
+        new RSocketError(
+          ErrorCodes.CANCELED,
+          "Reassembled payload exceeds maxInboundPayloadSize"
+        )
+      );
+    });
+
     it("Doesn't sends RequestResponseFrame on onReady event if request was cancelled", () => {
       const mockStream = new MockStream();
       const mockHandler: OnTerminalSubscriber &
@@ -977,6 +1020,81 @@ describe("RequestResponseStream Test", () => {
         expect(mockStream.handler).toBeUndefined();
       });
 
+      it("Send error back when reassembled payload exceeds max inbound payload size", () => {
+        const mockStream = new MockStream();
+        const mockCancellable = mock<Cancellable & OnExtensionSubscriber>();
+        let payload: Payload;
+        const responder = new RequestResponseResponderStream(
+          1,
+          mockStream,
+          0,
+          (p) => {
+            payload = p;
+            return mockCancellable;
+          },
+          {
+            type: FrameTypes.REQUEST_RESPONSE,
+            flags: Flags.FOLLOWS,
+            data: Buffer.from("hello"),
+            metadata: undefined,
+            streamId: 1,
+          },
+          8
+        );
+
+        responder.handle({
+          type: FrameTypes.PAYLOAD,
+          flags: Flags.FOLLOWS | Flags.NEXT,
+          data: Buffer.from(" world"),
+          metadata: undefined,
+          streamId: 1,
+        });
+
+        expect(mockStream.frames).toMatchObject([
+          {
+            type: FrameTypes.ERROR,
+            flags: Flags.NONE,
+            code: ErrorCodes.CANCELED,
+            message: "Reassembled payload exceeds maxInboundPayloadSize",
+            streamId: 1,
+          },
+        ]);
+        expect(payload).toBeUndefined();
+        expect(mockStream.handler).toBeUndefined();
+        expect(responder.hasFragments).toBeFalsy();
+      });
+
+      it("Send error back when the first fragment exceeds max inbound payload size", () => {
+        const mockStream = new MockStream();
+        const handler = jest.fn();
+        new RequestResponseResponderStream(
+          1,
+          mockStream,
+          0,
+          handler,
+          {
+            type: FrameTypes.REQUEST_RESPONSE,
+            flags: Flags.FOLLOWS,
+            data: Buffer.from("hello world"),
+            metadata: undefined,
+            streamId: 1,
+          },
+          8
+        );
+
+        expect(mockStream.frames).toMatchObject([
+          {
+            type: FrameTypes.ERROR,
+            flags: Flags.NONE,
+            code: ErrorCodes.CANCELED,
+            message: "Reassembled payload exceeds maxInboundPayloadSize",
+            streamId: 1,
+          },
+        ]);
+        expect(handler).not.toBeCalled();
+        expect(mockStream.handler).toBeUndefined();
+      });
+
       it("Cancel Reassembly on close", () => {
         const mockStream = new MockStream();
         const mockCancellable = mock<Cancellable & OnExtensionSubscriber>();
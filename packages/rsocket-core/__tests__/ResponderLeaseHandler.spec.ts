@@ -0,0 +1,138 @@
+import { mock } from "jest-mock-extended";
+import {
+  ErrorCodes,
+  Flags,
+  FrameTypes,
+  LeaseSender,
+  Outbound,
+  RequestResponseFrame,
+} from "../src";
+import { RSocket } from "../src/RSocket";
+import {
+  DefaultStreamRequestHandler,
+  ResponderLeaseHandler,
+} from "../src/RSocketSupport";
+import { MockStream } from "./test-utils/MockStream";
+
+jest.useFakeTimers();
+
+const requestFrame: RequestResponseFrame = {
+  type: FrameTypes.REQUEST_RESPONSE,
+  streamId: 1,
+  flags: Flags.NONE,
+  data: Buffer.from("hello"),
+  metadata: undefined,
+};
+
+describe("ResponderLeaseHandler", () => {
+  it("Sends LEASE frames issued by the configured sender", () => {
+    const mockOutbound = mock<Outbound>();
+    const handler = new ResponderLeaseHandler(
+      LeaseSender.fixedRate({
+        ttl: 1000,
+        requestCount: 2,
+        metadata: Buffer.from("lease"),
+      }),
+      mockOutbound
+    );
+
+    handler.start();
+
+    expect(mockOutbound.send).toBeCalledWith({
+      type: FrameTypes.LEASE,
+      streamId: 0,
+      flags: Flags.METADATA,
+      ttl: 1000,
+      requestCount: 2,
+      metadata: Buffer.from("lease"),
+    });
+    expect(handler.availableLease).toBe(2);
+
+    handler.close();
+    jest.advanceTimersByTime(2000);
+
+    expect(mockOutbound.send).toBeCalledTimes(1);
+  });
+
+  it("Rejects requests exceeding the granted lease with REJECTED error", () => {
+    const leaseHandler = new ResponderLeaseHandler(
+      LeaseSender.fixedRate({ ttl: 1000, requestCount: 1 }),
+      mock<Outbound>()
+    );
+    const mockResponder = mock<RSocket>();
+    const requestHandler = new DefaultStreamRequestHandler(
+      mockResponder,
+      0,
+      leaseHandler
+    );
+
+    leaseHandler.start();
+
+    requestHandler.handle(requestFrame, new MockStream());
+
+    expect(mockResponder.requestResponse).toBeCalledTimes(1);
+    expect(leaseHandler.availableLease).toBe(0);
+    expect(leaseHandler.activeStreams).toBe(1);
+
+    const stream = new MockStream();
+    requestHandler.handle({ ...requestFrame, streamId: 3 }, stream);
+
+    expect(mockResponder.requestResponse).toBeCalledTimes(1);
+    expect(stream.frames).toMatchObject([
+      {
+        type: FrameTypes.ERROR,
+        streamId: 3,
+        code: ErrorCodes.REJECTED,
+      },
+    ]);
+
+    leaseHandler.close();
+  });
+
+  it("Rejects requests once the lease is expired", () => {
+    const leaseHandler = new ResponderLeaseHandler(undefined, mock<Outbound>());
+    const requestHandler = new DefaultStreamRequestHandler(
+      mock<RSocket>(),
+      0,
+      leaseHandler
+    );
+
+    leaseHandler.send({ ttl: 1000, requestCount: 10 });
+    jest.advanceTimersByTime(1001);
+
+    const stream = new MockStream();
+    requestHandler.handle(requestFrame, stream);
+
+    expect(stream.frames).toMatchObject([
+      {
+        type: FrameTypes.ERROR,
+        streamId: 1,
+        code: ErrorCodes.REJECTED,
+      },
+    ]);
+  });
+
+  it("Tracks latency of completed requests", () => {
+    const leaseHandler = new ResponderLeaseHandler(undefined, mock<Outbound>());
+    const requestHandler = new DefaultStreamRequestHandler(
+      {
+        requestResponse(payload, responderStream) {
+          setTimeout(() => responderStream.onNext(payload, true), 100);
+          return mock();
+        },
+      },
+      0,
+      leaseHandler
+    );
+
+    leaseHandler.send({ ttl: 1000, requestCount: 10 });
+    requestHandler.handle(requestFrame, new MockStream());
+
+    expect(leaseHandler.activeStreams).toBe(1);
+
+    jest.advanceTimersByTime(100);
+
+    expect(leaseHandler.activeStreams).toBe(0);
+    expect(leaseHandler.latencies).toEqual([100]);
+  });
+});
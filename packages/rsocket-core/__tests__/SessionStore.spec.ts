@@ -0,0 +1,126 @@
+import { mock } from "jest-mock-extended";
+import {
+  ErrorCodes,
+  InMemorySessionStore,
+  ResumableSession,
+  RSocketError,
+} from "../src";
+
+jest.useFakeTimers();
+
+function mockSession(token: string) {
+  return mock<ResumableSession>({ token });
+}
+
+describe("InMemorySessionStore", () => {
+  it("Stores, resumes and expires sessions emitting events", () => {
+    const store = new InMemorySessionStore();
+    const session = mockSession("token");
+    const created = jest.fn();
+    const resumed = jest.fn();
+    const expired = jest.fn();
+    store.on("created", created);
+    store.on("resumed", resumed);
+    store.on("expired", expired);
+
+    store.add(session);
+
+    expect(created).toBeCalledWith(session);
+    expect(store.get("token")).toBe(session);
+    expect(store.sessions()).toEqual([session]);
+
+    expect(store.resume("token")).toBe(session);
+    expect(resumed).not.toBeCalled();
+
+    store.resumed("token");
+
+    expect(resumed).toBeCalledWith(session);
+
+    store.expire("token");
+
+    expect(expired).toBeCalledWith(session);
+    expect(store.get("token")).toBeUndefined();
+    expect(store.resume("token")).toBeUndefined();
+    expect(store.sessions()).toEqual([]);
+  });
+
+  it("Rejects sessions once max number of sessions is reached", () => {
+    const store = new InMemorySessionStore({ maxSessions: 1 });
+
+    store.add(mockSession("token1"));
+
+    let error: RSocketError;
+    try {
+      store.add(mockSession("token2"));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error.code).toBe(ErrorCodes.REJECTED_SETUP);
+    expect(store.get("token2")).toBeUndefined();
+  });
+
+  it("Rejects sessions with already used resume token", () => {
+    const store = new InMemorySessionStore();
+    const session = mockSession("token");
+
+    store.add(session);
+
+    expect(() => store.add(mockSession("token"))).toThrow(
+      "Session with the given resume token already exists"
+    );
+    expect(store.get("token")).toBe(session);
+  });
+
+  it("Expires and closes sessions which were not resumed within ttl", () => {
+    const store = new InMemorySessionStore({ ttl: 1000 });
+    const session = mockSession("token");
+    const expired = jest.fn();
+    store.on("expired", expired);
+
+    store.add(session);
+    store.disconnected("token");
+    jest.advanceTimersByTime(500);
+
+    expect(store.resume("token")).toBe(session);
+    store.resumed("token");
+
+    store.disconnected("token");
+    jest.advanceTimersByTime(1001);
+
+    expect(store.resume("token")).toBeUndefined();
+    expect(expired).toBeCalledWith(session);
+    expect(session.close).toBeCalledTimes(1);
+  });
+
+  it("Keeps the ttl running until the session is resumed", () => {
+    const store = new InMemorySessionStore({ ttl: 1000 });
+    const session = mockSession("token");
+    const resumed = jest.fn();
+    store.on("resumed", resumed);
+
+    store.add(session);
+    store.disconnected("token");
+    jest.advanceTimersByTime(500);
+
+    // e.g. the RESUME positions are rejected
+    expect(store.resume("token")).toBe(session);
+    jest.advanceTimersByTime(501);
+
+    expect(store.get("token")).toBeUndefined();
+    expect(resumed).not.toBeCalled();
+  });
+
+  it("Keeps connected sessions regardless of ttl", () => {
+    const store = new InMemorySessionStore({ ttl: 1000 });
+    const session = mockSession("token1");
+
+    store.add(session);
+    jest.advanceTimersByTime(2000);
+    store.add(mockSession("token2"));
+
+    expect(store.get("token1")).toBe(session);
+    expect(store.sessions()).toHaveLength(2);
+    expect(session.close).not.toBeCalled();
+  });
+});
@@ -15,11 +15,33 @@
  */
 
 import { ErrorCodes, Flags, FrameTypes, ResumeFrame, ResumeOkFrame } from ".";
+import { MAX_REQUEST_N, MAX_STREAM_ID } from "./Codecs";
 import { Closeable } from "./Common";
 import { Deferred } from "./Deferred";
-import { RSocketError } from "./Errors";
-import { Frame } from "./Frames";
+import {
+  ConnectionError,
+  createConnectionError,
+  isConnectionErrorCode,
+  RejectedResumeError,
+  RSocketError,
+} from "./Errors";
+import {
+  CancelFrame,
+  ErrorFrame,
+  ExtFrame,
+  Frame,
+  MetadataPushFrame,
+  PayloadFrame,
+  RequestChannelFrame,
+  RequestFnfFrame,
+  RequestNFrame,
+  RequestResponseFrame,
+  RequestStreamFrame,
+} from "./Frames";
+import { FrameDirection } from "./FrameObserver";
+import { RSocketMetrics } from "./Metrics";
 import { FrameStore } from "./Resume";
+import { ResumableSession, SessionStore } from "./SessionStore";
 import {
   ConnectionFrameHandler,
   Demultiplexer,
@@ -33,7 +55,21 @@ import {
 } from "./Transport";
 
 export interface StreamIdGenerator {
-  next(handler: (nextId: number) => boolean, streams: Array<number>): void;
+  /**
+   * Generates the next stream id skipping the ids which are still in use.
+   * Returns `false` if there is no stream id available.
+   */
+  next(
+    handler: (nextId: number) => boolean,
+    isInUse: (streamId: number) => boolean
+  ): boolean;
+
+  /**
+   * Returns `true` if the given stream id belongs to the sequence of ids
+   * produced by this generator, which means the stream has been initiated
+   * locally.
+   */
+  owns(streamId: number): boolean;
 }
 
 export namespace StreamIdGenerator {
@@ -42,25 +78,65 @@ export namespace StreamIdGenerator {
   }
 
   class StreamIdGeneratorImpl implements StreamIdGenerator {
-    constructor(private currentId: number) {}
+    // the first id of the sequence is either 1 or 2, since 0 is reserved for
+    // the connection
+    private readonly firstId: number;
+
+    constructor(private currentId: number) {
+      this.firstId = currentId % 2 === 0 ? 2 : 1;
+    }
 
-    next(handler: (nextId: number) => boolean): void {
-      const nextId = this.currentId + 2;
+    next(
+      handler: (nextId: number) => boolean,
+      isInUse: (streamId: number) => boolean
+    ): boolean {
+      const initialId = this.nextAfter(this.currentId);
+      let nextId = initialId;
 
-      if (!handler(nextId)) {
-        return;
+      while (isInUse(nextId)) {
+        nextId = this.nextAfter(nextId);
+
+        if (nextId === initialId) {
+          return false;
+        }
+      }
+
+      if (handler(nextId)) {
+        this.currentId = nextId;
       }
 
-      this.currentId = nextId;
+      return true;
+    }
+
+    owns(streamId: number): boolean {
+      return streamId % 2 === this.firstId % 2;
+    }
+
+    private nextAfter(streamId: number): number {
+      const nextId = streamId + 2;
+      return nextId > MAX_STREAM_ID ? this.firstId : nextId;
     }
   }
 }
 
+// credit granted with REQUEST_N to each direction of a stream, `Infinity`
+// once unbounded
+type RequestNCredit = { [direction in FrameDirection]: number };
+
+// the number of closed streams to remember so late frames sent by the peer
+// before it observed the stream termination can be ignored
+const MAX_RECENTLY_CLOSED_STREAMS = 1024;
+
 export class ClientServerInputMultiplexerDemultiplexer
   extends Deferred
   implements Closeable, Multiplexer, Demultiplexer, Stream, FrameHandler
 {
   private readonly registry: { [id: number]: StreamFrameHandler } = {};
+  private readonly recentlyClosedStreams: { [id: number]: boolean } = {};
+  private readonly recentlyClosedStreamIds: Array<number> = [];
+  private readonly requestNCredits: { [id: number]: RequestNCredit } = {};
+  private draining: boolean = false;
+  private drained?: () => void;
 
   protected connectionFramesHandler: ConnectionFrameHandler;
   private requestFramesHandler: StreamRequestHandler;
@@ -68,40 +144,102 @@ export class ClientServerInputMultiplexerDemultiplexer
   constructor(
     private readonly streamIdSupplier: StreamIdGenerator,
     protected outbound: Outbound,
-    private readonly closeable: Closeable
+    private readonly closeable: Closeable,
+    private readonly strict: boolean = true,
+    protected readonly metrics?: RSocketMetrics
   ) {
     super();
 
     closeable.onClose(this.close.bind(this));
+    metrics?.connectionOpened();
   }
 
   handle(frame: Frame): void {
+    if (this.metrics) {
+      this.recordFrame(frame, "inbound");
+    }
+
+    if (Frame.isUnsupported(frame)) {
+      if (!Flags.hasIgnore(frame.flags)) {
+        this.handleProtocolViolation(`Unexpected frame type [${frame.type}]`);
+      }
+      return;
+    }
+
+    if (
+      frame.type === FrameTypes.EXT &&
+      frame.streamId !== 0 &&
+      !this.registry[frame.streamId] &&
+      Flags.hasIgnore(frame.flags)
+    ) {
+      // extension for a stream which is not known, but it can be ignored
+      return;
+    }
+
     if (Frame.isConnection(frame)) {
-      if (frame.type === FrameTypes.RESERVED) {
-        // TODO: throw
-        return;
+      if (
+        frame.type === FrameTypes.ERROR &&
+        !isConnectionErrorCode(frame.code)
+      ) {
+        if (
+          this.handleProtocolViolation(
+            `Unexpected error code [${frame.code}] on stream 0`
+          )
+        ) {
+          return;
+        }
       }
 
       this.connectionFramesHandler.handle(frame);
       // TODO: Connection Handler
     } else if (Frame.isRequest(frame)) {
-      if (this.registry[frame.streamId]) {
-        // TODO: Send error and close connection
+      const streamId = frame.streamId;
+      if (this.registry[streamId]) {
+        this.handleProtocolViolation(
+          `Stream id [${streamId}] is already in use`
+        );
+        return;
+      }
+
+      if (this.streamIdSupplier.owns(streamId)) {
+        this.handleProtocolViolation(
+          `Stream id [${streamId}] can not be used by the peer to initiate a request`
+        );
+        return;
+      }
+
+      if (this.draining) {
+        this.outbound.send({
+          type: FrameTypes.ERROR,
+          streamId,
+          flags: Flags.NONE,
+          code: ErrorCodes.REJECTED,
+          message: "Connection is being closed",
+        });
+        this.markClosed(streamId);
         return;
       }
 
       this.requestFramesHandler.handle(frame, this);
+
+      if (!this.registry[streamId]) {
+        // stream has been terminated right away, e.g. fire and forget or
+        // rejected request
+        this.markClosed(streamId);
+      }
     } else {
       const handler = this.registry[frame.streamId];
       if (!handler) {
-        // TODO: add validation
+        if (!this.recentlyClosedStreams[frame.streamId]) {
+          this.handleProtocolViolation(`Unknown stream id [${frame.streamId}]`);
+        }
+        // otherwise it is a late frame sent before the peer observed
+        // the stream termination, hence ignored
         return;
       }
 
       handler.handle(frame);
     }
-
-    // TODO: add extensions support
   }
 
   connectionInbound(handler: ConnectionFrameHandler): void {
@@ -119,6 +257,10 @@ export class ClientServerInputMultiplexerDemultiplexer
   }
 
   send(frame: Frame): void {
+    if (this.metrics) {
+      this.recordFrame(frame, "outbound");
+    }
+
     this.outbound.send(frame);
   }
 
@@ -135,19 +277,213 @@ export class ClientServerInputMultiplexerDemultiplexer
       return;
     }
 
+    if (this.draining) {
+      streamHandler.handleReject(
+        new RSocketError(ErrorCodes.REJECTED, "Connection is being closed")
+      );
+      return;
+    }
+
     const registry = this.registry;
-    this.streamIdSupplier.next(
-      (streamId) => streamHandler.handleReady(streamId, this),
-      Object.keys(registry) as any as Array<number>
+    const hasAvailableStreamId = this.streamIdSupplier.next(
+      (streamId) => {
+        if (!streamHandler.handleReady(streamId, this)) {
+          return false;
+        }
+
+        if (!registry[streamId]) {
+          // stream has been terminated right away, e.g. fire and forget
+          this.markClosed(streamId);
+        }
+
+        return true;
+      },
+      (streamId) => !!registry[streamId]
     );
+
+    if (!hasAvailableStreamId) {
+      streamHandler.handleReject(
+        new RSocketError(ErrorCodes.REJECTED, "No available stream id")
+      );
+    }
   }
 
   connect(handler: StreamFrameHandler): void {
     this.registry[handler.streamId] = handler;
+    this.metrics?.streamOpened(handler.streamType);
   }
 
   disconnect(stream: StreamFrameHandler): void {
+    if (this.registry[stream.streamId] && !this.done) {
+      this.metrics?.streamClosed(stream.streamType);
+    }
+
     delete this.registry[stream.streamId];
+    this.markClosed(stream.streamId);
+
+    if (this.drained && !this.hasActiveStreams()) {
+      this.drained();
+    }
+  }
+
+  drain(timeout?: number): Promise<void> {
+    this.draining = true;
+
+    return new Promise((resolve) => {
+      if (this.done || !this.hasActiveStreams()) {
+        resolve();
+        return;
+      }
+
+      let timeoutId: any;
+      const drained = () => {
+        clearTimeout(timeoutId);
+        this.drained = undefined;
+        resolve();
+      };
+
+      this.drained = drained;
+      this.onClose(drained);
+
+      if (timeout !== undefined) {
+        timeoutId = setTimeout(drained, timeout);
+      }
+    });
+  }
+
+  private hasActiveStreams(): boolean {
+    for (const _streamId in this.registry) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private markClosed(streamId: number): void {
+    if (this.requestNCredits[streamId]) {
+      this.releaseRequestNCredit(streamId);
+    }
+
+    if (this.recentlyClosedStreams[streamId]) {
+      return;
+    }
+
+    this.recentlyClosedStreams[streamId] = true;
+    this.recentlyClosedStreamIds.push(streamId);
+
+    if (this.recentlyClosedStreamIds.length > MAX_RECENTLY_CLOSED_STREAMS) {
+      delete this.recentlyClosedStreams[this.recentlyClosedStreamIds.shift()];
+    }
+  }
+
+  /**
+   * Records the stream metrics on behalf of the `Request*Stream` classes.
+   * Every stream connects, disconnects and exchanges its frames through the
+   * multiplexer, so the streams of all the interaction models are measured
+   * here alike, without each stream having to carry the metrics.
+   */
+  protected recordFrame(frame: Frame, direction: FrameDirection): void {
+    this.metrics.frame(frame, direction);
+
+    switch (frame.type) {
+      case FrameTypes.REQUEST_STREAM:
+      case FrameTypes.REQUEST_CHANNEL: {
+        if (this.requestNCredits[frame.streamId]) {
+          // stream id already in use, hence rejected as a protocol violation
+          return;
+        }
+        // the initial request N allows the peer to send payloads in the
+        // opposite direction
+        this.requestNCredits[frame.streamId] = { inbound: 0, outbound: 0 };
+        this.grantRequestNCredit(
+          frame.streamId,
+          direction === "inbound" ? "outbound" : "inbound",
+          frame.requestN
+        );
+        return;
+      }
+      case FrameTypes.REQUEST_N: {
+        if (this.requestNCredits[frame.streamId]) {
+          this.grantRequestNCredit(
+            frame.streamId,
+            direction === "inbound" ? "outbound" : "inbound",
+            frame.requestN
+          );
+        }
+        return;
+      }
+      case FrameTypes.PAYLOAD: {
+        const credit = this.requestNCredits[frame.streamId];
+        if (
+          credit &&
+          credit[direction] > 0 &&
+          credit[direction] !== Infinity &&
+          Flags.hasNext(frame.flags) &&
+          !Flags.hasFollows(frame.flags)
+        ) {
+          credit[direction]--;
+          this.metrics.requestNConsumed(direction, 1);
+        }
+        return;
+      }
+    }
+  }
+
+  private grantRequestNCredit(
+    streamId: number,
+    direction: FrameDirection,
+    n: number
+  ): void {
+    const credit = this.requestNCredits[streamId];
+    const current = credit[direction];
+    if (current === Infinity) {
+      return;
+    }
+
+    if (current + n >= MAX_REQUEST_N) {
+      credit[direction] = Infinity;
+      this.metrics.requestNConsumed(direction, current);
+      return;
+    }
+
+    credit[direction] = current + n;
+    this.metrics.requestNGranted(direction, n);
+  }
+
+  private releaseRequestNCredit(streamId: number): void {
+    const credit = this.requestNCredits[streamId];
+    delete this.requestNCredits[streamId];
+
+    for (const direction of ["inbound", "outbound"] as const) {
+      if (credit[direction] > 0 && credit[direction] !== Infinity) {
+        this.metrics.requestNConsumed(direction, credit[direction]);
+      }
+    }
+  }
+
+  /**
+   * Terminates the connection with ERROR[CONNECTION_ERROR] in strict mode,
+   * otherwise the violation is only logged. Returns `true` if the connection
+   * has been terminated.
+   */
+  private handleProtocolViolation(message: string): boolean {
+    if (!this.strict) {
+      console.warn(`Protocol violation. ${message}`);
+      return false;
+    }
+
+    const error = new ConnectionError(message);
+
+    this.outbound.send({
+      type: FrameTypes.ERROR,
+      streamId: 0,
+      flags: Flags.NONE,
+      code: error.code,
+      message: error.message,
+    });
+    this.closeable.close(error);
+
+    return true;
   }
 
   close(error?: Error): void {
@@ -162,14 +498,24 @@ export class ClientServerInputMultiplexerDemultiplexer
         new Error(`Closed. ${error ? `Original cause [${error}].` : ""}`)
       );
     }
+    if (this.metrics) {
+      for (const streamId in this.registry) {
+        this.metrics.streamClosed(this.registry[streamId].streamType);
+      }
+      for (const streamId in this.requestNCredits) {
+        this.releaseRequestNCredit(Number(streamId));
+      }
+      this.metrics.connectionClosed();
+    }
     super.close(error);
   }
 }
 
-export class ResumableClientServerInputMultiplexerDemultiplexer extends ClientServerInputMultiplexerDemultiplexer {
-  private readonly sessionStore?: {
-    [sessionId: string]: ResumableClientServerInputMultiplexerDemultiplexer;
-  };
+export class ResumableClientServerInputMultiplexerDemultiplexer
+  extends ClientServerInputMultiplexerDemultiplexer
+  implements ResumableSession
+{
+  private readonly sessionStore?: SessionStore;
   private readonly reconnector?: (
     self: ResumableClientServerInputMultiplexerDemultiplexer,
     frameStore: FrameStore
@@ -181,70 +527,132 @@ export class ResumableClientServerInputMultiplexerDemultiplexer extends ClientSe
     outbound: Outbound,
     closeable: Closeable,
     private readonly frameStore: FrameStore,
-    private readonly token: string,
+    readonly token: string,
     sessionStoreOrReconnector:
-      | {
-          [
-            sessionId: string
-          ]: ResumableClientServerInputMultiplexerDemultiplexer;
-        }
+      | SessionStore
       | ((
           self: ResumableClientServerInputMultiplexerDemultiplexer,
           frameStore: FrameStore
         ) => Promise<void>),
-    private readonly sessionTimeout?: number
+    private readonly sessionTimeout?: number,
+    strict?: boolean,
+    metrics?: RSocketMetrics
   ) {
-    super(streamIdSupplier, outbound, new Deferred());
+    super(streamIdSupplier, outbound, new Deferred(), strict, metrics);
 
     if (sessionStoreOrReconnector instanceof Function) {
       this.reconnector = sessionStoreOrReconnector;
     } else {
-      this.sessionStore = sessionStoreOrReconnector as {};
+      this.sessionStore = sessionStoreOrReconnector;
+      this.onClose(() => {
+        if (this.sessionStore.get(this.token) === this) {
+          this.sessionStore.expire(this.token);
+        }
+      });
     }
 
     closeable.onClose(this.handleConnectionClose.bind(this));
   }
 
   send(frame: Frame): void {
+    if (this.metrics) {
+      this.recordFrame(frame, "outbound");
+    }
+
     if (Frame.isConnection(frame)) {
       if (frame.type === FrameTypes.KEEPALIVE) {
+        // let the peer release frames it does not need to keep for resumption
         frame.lastReceivedPosition = this.frameStore.lastReceivedFramePosition;
       } else if (frame.type === FrameTypes.ERROR) {
         this.outbound.send(frame);
-        if (this.sessionStore) {
-          delete this.sessionStore[this.token];
-        }
-        super.close(new RSocketError(frame.code, frame.message));
+        super.close(createConnectionError(frame.code, frame.message));
         return;
+      } else if (
+        frame.type === FrameTypes.METADATA_PUSH ||
+        frame.type === FrameTypes.EXT
+      ) {
+        if (!this.storeFrame(frame)) {
+          return;
+        }
       }
-    } else {
-      this.frameStore.store(frame);
+    } else if (!this.storeFrame(frame)) {
+      return;
     }
     this.outbound.send(frame);
   }
 
+  private storeFrame(
+    frame:
+      | CancelFrame
+      | ErrorFrame
+      | PayloadFrame
+      | MetadataPushFrame
+      | RequestChannelFrame
+      | RequestFnfFrame
+      | RequestNFrame
+      | RequestResponseFrame
+      | RequestStreamFrame
+      | ExtFrame
+  ): boolean {
+    try {
+      this.frameStore.store(frame);
+      return true;
+    } catch (re) {
+      this.outbound.send({
+        type: FrameTypes.ERROR,
+        streamId: 0,
+        flags: Flags.NONE,
+        code: (re as RSocketError).code,
+        message: re.message,
+      });
+      this.close(re);
+      return false;
+    }
+  }
+
   handle(frame: Frame): void {
+    if (Frame.isUnsupported(frame)) {
+      // only the header of such a frame is decoded, hence its size is not
+      // known and it can not be accounted for in the received position
+      super.handle(frame);
+      return;
+    }
+
     if (Frame.isConnection(frame)) {
       if (frame.type === FrameTypes.KEEPALIVE) {
-        try {
-          this.frameStore.dropTo(frame.lastReceivedPosition);
-        } catch (re) {
-          this.outbound.send({
-            type: FrameTypes.ERROR,
-            streamId: 0,
-            flags: Flags.NONE,
-            code: (re as RSocketError).code,
-            message: re.message,
-          });
-          this.close(re);
+        // KEEPALIVE carries the implied position of the last frame received by
+        // the peer, hence all frames up to it can be released. Positions which
+        // have already been released (e.g. 0 sent by a peer which does not
+        // track them) are ignored
+        if (
+          frame.lastReceivedPosition >
+          this.frameStore.firstAvailableFramePosition
+        ) {
+          try {
+            this.frameStore.dropTo(frame.lastReceivedPosition);
+          } catch (re) {
+            this.outbound.send({
+              type: FrameTypes.ERROR,
+              streamId: 0,
+              flags: Flags.NONE,
+              code: (re as RSocketError).code,
+              message: re.message,
+            });
+            this.close(re);
+            return;
+          }
         }
       } else if (frame.type === FrameTypes.ERROR) {
         super.handle(frame);
-        if (this.sessionStore) {
-          delete this.sessionStore[this.token];
+        if (!this.done) {
+          super.close(createConnectionError(frame.code, frame.message));
         }
-        super.close(new RSocketError(frame.code, frame.message));
         return;
+      } else if (
+        frame.type === FrameTypes.METADATA_PUSH ||
+        frame.type === FrameTypes.EXT
+      ) {
+        this.frameStore.record(frame);
       }
     } else {
       this.frameStore.record(frame);
@@ -263,9 +671,22 @@ export class ResumableClientServerInputMultiplexerDemultiplexer extends ClientSe
     switch (frame.type) {
       case FrameTypes.RESUME: {
         clearTimeout(this.timeoutId);
+        if (!this.frameStore.resumable) {
+          const e = new RejectedResumeError(
+            "Impossible to resume since frames cache size was exceeded"
+          );
+          this.outbound.send({
+            type: FrameTypes.ERROR,
+            streamId: 0,
+            flags: Flags.NONE,
+            code: e.code,
+            message: e.message,
+          });
+          this.close(e);
+          return;
+        }
         if (this.frameStore.lastReceivedFramePosition < frame.clientPosition) {
-          const e = new RSocketError(
-            ErrorCodes.REJECTED_RESUME,
+          const e = new RejectedResumeError(
             "Impossible to resume since first available client frame position is greater than last received server frame position"
           );
           this.outbound.send({
@@ -325,7 +746,18 @@ export class ResumableClientServerInputMultiplexerDemultiplexer extends ClientSe
   }
 
   private async handleConnectionClose(_error?: Error): Promise<void> {
+    if (this.done) {
+      return;
+    }
     this.connectionFramesHandler.pause();
+    if (!this.frameStore.resumable) {
+      this.close(
+        new RejectedResumeError(
+          "Impossible to resume since frames cache size was exceeded"
+        )
+      );
+      return;
+    }
     if (this.reconnector) {
       try {
         await this.reconnector(this, this.frameStore);
@@ -333,6 +765,7 @@ export class ResumableClientServerInputMultiplexerDemultiplexer extends ClientSe
         this.close(e);
       }
     } else {
+      this.sessionStore.disconnected(this.token);
       this.timeoutId = setTimeout(this.close.bind(this), this.sessionTimeout);
     }
   }
@@ -366,6 +799,10 @@ export class ResumeOkAwaitingResumableClientServerInputMultiplexerDemultiplexer
     this.delegate.createRequestStream(streamHandler);
   }
 
+  drain(timeout?: number): Promise<void> {
+    return this.delegate.drain(timeout);
+  }
+
   connectionInbound(handler: ConnectionFrameHandler): void {
     this.delegate.connectionInbound(handler);
   }
@@ -380,6 +817,10 @@ export class ResumeOkAwaitingResumableClientServerInputMultiplexerDemultiplexer
         this.resumed = true;
         this.delegate.resume(frame, this.outbound, this.closeable);
         return;
+      } else if (frame.type === FrameTypes.ERROR && frame.streamId === 0) {
+        // e.g. REJECTED_RESUME, so the session can not be resumed anymore
+        this.closeable.close();
+        this.delegate.close(createConnectionError(frame.code, frame.message));
       } else {
         this.outbound.send({
           type: FrameTypes.ERROR,
@@ -391,8 +832,7 @@ export class ResumeOkAwaitingResumableClientServerInputMultiplexerDemultiplexer
         this.closeable.close();
         this.closeable.onClose(() =>
           this.delegate.close(
-            new RSocketError(
-              ErrorCodes.CONNECTION_ERROR,
+            new ConnectionError(
               `Incomplete RESUME handshake. Unexpected frame ${frame.type} received`
             )
           )
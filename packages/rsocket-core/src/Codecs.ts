@@ -19,6 +19,7 @@
 import {
   CancelFrame,
   ErrorFrame,
+  ExtFrame,
   Flags,
   Frame,
   FrameTypes,
@@ -34,6 +35,7 @@ import {
   ResumeFrame,
   ResumeOkFrame,
   SetupFrame,
+  UnsupportedFrame,
 } from "./Frames";
 
 export const FLAGS_MASK = 0x3ff; // low 10 bits
@@ -207,12 +209,10 @@ export function deserializeFrame(buffer: Buffer): Frame {
       return deserializeCancelFrame(buffer, streamId, flags);
     case FrameTypes.LEASE:
       return deserializeLeaseFrame(buffer, streamId, flags);
+    case FrameTypes.EXT:
+      return deserializeExtFrame(buffer, streamId, flags);
     default:
-    // invariant(
-    //   false,
-    //   "RSocketBinaryFraming: Unsupported frame type `%s`.",
-    //   getFrameTypeName(type)
-    // );
+      return deserializeUnsupportedFrame(type, streamId, flags);
   }
 }
 
@@ -247,6 +247,8 @@ export function serializeFrame(frame: Frame): Buffer {
       return serializeCancelFrame(frame);
     case FrameTypes.LEASE:
       return serializeLeaseFrame(frame);
+    case FrameTypes.EXT:
+      return serializeExtFrame(frame);
     default:
     // invariant(
     //   false,
@@ -287,6 +289,8 @@ export function sizeOfFrame(frame: Frame): number {
       return sizeOfCancelFrame(frame);
     case FrameTypes.LEASE:
       return sizeOfLeaseFrame(frame);
+    case FrameTypes.EXT:
+      return sizeOfExtFrame(frame);
     default:
     // invariant(
     //   false,
@@ -1089,6 +1093,66 @@ function deserializeResumeOkFrame(
   };
 }
 
+/**
+ * Writes an EXT frame to a new buffer and returns it.
+ *
+ * Prefix size is for the extended type (uint32 = 4).
+ */
+const EXT_HEADER = 4;
+
+function serializeExtFrame(frame: ExtFrame): Buffer {
+  const content = frame.extendedContent;
+  const buffer = Buffer.allocUnsafe(
+    FRAME_HEADER_SIZE + EXT_HEADER + (content != null ? content.byteLength : 0)
+  );
+  let offset = writeHeader(frame, buffer);
+  offset = buffer.writeUInt32BE(frame.extendedType, offset);
+  if (content != null) {
+    content.copy(buffer, offset);
+  }
+  return buffer;
+}
+
+function sizeOfExtFrame(frame: ExtFrame): number {
+  return (
+    FRAME_HEADER_SIZE +
+    EXT_HEADER +
+    (frame.extendedContent != null ? frame.extendedContent.byteLength : 0)
+  );
+}
+
+function deserializeExtFrame(
+  buffer: Buffer,
+  streamId: number,
+  flags: number
+): ExtFrame {
+  const offset = FRAME_HEADER_SIZE + EXT_HEADER;
+  return {
+    extendedContent:
+      buffer.length > offset ? buffer.slice(offset, buffer.length) : undefined,
+    extendedType: buffer.readUInt32BE(FRAME_HEADER_SIZE),
+    flags,
+    streamId,
+    type: FrameTypes.EXT,
+  };
+}
+
+/**
+ * Reads the header of a RESERVED frame or of a frame of an unknown type, so
+ * the frame can be ignored or rejected depending on its IGNORE flag.
+ */
+function deserializeUnsupportedFrame(
+  type: number,
+  streamId: number,
+  flags: number
+): UnsupportedFrame {
+  return {
+    flags,
+    streamId,
+    type: type as FrameTypes.RESERVED,
+  };
+}
+
 /**
  * Write the header of the frame into the buffer.
  */
@@ -27,10 +27,39 @@ export interface Closeable {
   onClose(callback: (error?: Error) => void): void;
 }
 
+export type DisposeOptions = {
+  /**
+   * Max time in milliseconds given to the active streams to terminate. If not
+   * specified, the active streams are awaited for as long as it takes.
+   */
+  drainTimeout?: number;
+};
+
+export interface Disposable {
+  /**
+   * Gracefully closes the connection. New requests are rejected while the
+   * active streams are given `drainTimeout` to terminate, then the peer is
+   * notified with ERROR[CONNECTION_CLOSE] and the connection is closed.
+   */
+  dispose(options?: DisposeOptions): Promise<void>;
+}
+
 export interface Availability {
   /**
    * Returns positive number representing the availability of RSocket requester. Higher is better, 0.0
    * means not available.
    */
   readonly availability: number;
+
+  /**
+   * Round trip time in milliseconds of the last keep-alive acknowledged by the
+   * peer, `undefined` until one is acknowledged.
+   */
+  readonly lastRtt?: number;
+
+  /**
+   * Exponentially weighted moving average of the keep-alive round trip times
+   * in milliseconds, `undefined` until a keep-alive is acknowledged.
+   */
+  readonly smoothedRtt?: number;
 }
@@ -17,6 +17,58 @@
 export class RSocketError extends Error {
   constructor(readonly code: number | ErrorCodes, message?: string) {
     super(message);
+    // restores the prototype chain which is lost when extending Error with
+    // the ES5 target, so subclasses can be checked with `instanceof`
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class InvalidSetupError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.INVALID_SETUP, message);
+  }
+}
+
+export class UnsupportedSetupError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.UNSUPPORTED_SETUP, message);
+  }
+}
+
+export class RejectedSetupError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.REJECTED_SETUP, message);
+  }
+}
+
+export class RejectedResumeError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.REJECTED_RESUME, message);
+  }
+}
+
+export class ConnectionError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.CONNECTION_ERROR, message);
+  }
+}
+
+/**
+ * Signals the graceful close of the connection by the peer.
+ */
+export class ConnectionCloseError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.CONNECTION_CLOSE, message);
+  }
+}
+
+/**
+ * Signals that a request has not been terminated within its timeout. The
+ * request is cancelled before the error is delivered to the subscriber.
+ */
+export class TimeoutError extends RSocketError {
+  constructor(message?: string) {
+    super(ErrorCodes.CANCELED, message);
   }
 }
 
@@ -34,3 +86,51 @@ export enum ErrorCodes {
   INVALID = 0x00000204,
   RESERVED_EXTENSION = 0xffffffff,
 }
+
+/**
+ * Returns `true` if the given code can be sent in an ERROR frame on the
+ * stream 0. Codes reserved for extensions are allowed on any stream.
+ */
+export function isConnectionErrorCode(code: number): boolean {
+  switch (code) {
+    case ErrorCodes.INVALID_SETUP:
+    case ErrorCodes.UNSUPPORTED_SETUP:
+    case ErrorCodes.REJECTED_SETUP:
+    case ErrorCodes.REJECTED_RESUME:
+    case ErrorCodes.CONNECTION_ERROR:
+    case ErrorCodes.CONNECTION_CLOSE:
+      return true;
+    default:
+      return isExtensionErrorCode(code);
+  }
+}
+
+function isExtensionErrorCode(code: number): boolean {
+  // 0x00000301 - 0xFFFFFFFE are reserved for extension use
+  return code >= 0x00000301 && code < ErrorCodes.RESERVED_EXTENSION;
+}
+
+/**
+ * Creates the error for an ERROR frame received on the stream 0.
+ */
+export function createConnectionError(
+  code: number,
+  message?: string
+): RSocketError {
+  switch (code) {
+    case ErrorCodes.INVALID_SETUP:
+      return new InvalidSetupError(message);
+    case ErrorCodes.UNSUPPORTED_SETUP:
+      return new UnsupportedSetupError(message);
+    case ErrorCodes.REJECTED_SETUP:
+      return new RejectedSetupError(message);
+    case ErrorCodes.REJECTED_RESUME:
+      return new RejectedResumeError(message);
+    case ErrorCodes.CONNECTION_ERROR:
+      return new ConnectionError(message);
+    case ErrorCodes.CONNECTION_CLOSE:
+      return new ConnectionCloseError(message);
+    default:
+      return new RSocketError(code, message);
+  }
+}
@@ -0,0 +1,88 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { OnExtensionSubscriber } from "./RSocket";
+
+export type ExtensionHandler = (
+  content: Buffer | null | undefined,
+  canBeIgnored: boolean
+) => void;
+
+/**
+ * Routes EXT frames to the handlers registered for their `extendedType`.
+ *
+ * A registry can be used on the connection level (see `extensions` in the
+ * connector and server configs) as well as on the stream level, by passing it
+ * as the `OnExtensionSubscriber` of a stream. In the latter case
+ * `onUnsupported` is called for extensions which have no registered handler
+ * and can not be ignored, so the stream can be terminated.
+ */
+export class ExtensionRegistry implements OnExtensionSubscriber {
+  private readonly handlers: { [extendedType: number]: ExtensionHandler } = {};
+
+  constructor(
+    private readonly onUnsupported?: (extendedType: number) => void
+  ) {}
+
+  register(extendedType: number, handler: ExtensionHandler): ExtensionRegistry {
+    if (this.handlers[extendedType]) {
+      throw new Error(
+        `Handler for extension [${extendedType}] has already been registered`
+      );
+    }
+
+    this.handlers[extendedType] = handler;
+
+    return this;
+  }
+
+  unregister(extendedType: number): void {
+    delete this.handlers[extendedType];
+  }
+
+  has(extendedType: number): boolean {
+    return !!this.handlers[extendedType];
+  }
+
+  /**
+   * Returns `false` if there is no handler registered for the given
+   * `extendedType` and the extension can not be ignored.
+   */
+  handle(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): boolean {
+    const handler = this.handlers[extendedType];
+    if (!handler) {
+      return canBeIgnored;
+    }
+
+    handler(content, canBeIgnored);
+
+    return true;
+  }
+
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    if (!this.handle(extendedType, content, canBeIgnored)) {
+      this.onUnsupported?.(extendedType);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Cancellable,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  Payload,
+  Requestable,
+} from "./RSocket";
+
+/**
+ * What a requester gets back for a request: the request itself plus the
+ * outbound signals of a channel.
+ */
+export type RequestHandler = Cancellable &
+  Partial<
+    OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber &
+      Requestable
+  >;
+
+/**
+ * What a request is given to deliver the response to: the response signals
+ * plus the inbound signals of a channel.
+ */
+export type ResponseReceiver = OnTerminalSubscriber &
+  Partial<OnNextSubscriber & OnExtensionSubscriber & Requestable & Cancellable>;
+
+/**
+ * Passes every signal of the requester through to the request handler.
+ * Decorators of a request override the signals they act upon.
+ */
+export class ForwardingRequest
+  implements
+    OnTerminalSubscriber,
+    OnNextSubscriber,
+    OnExtensionSubscriber,
+    Requestable,
+    Cancellable
+{
+  constructor(protected handler?: RequestHandler) {}
+
+  cancel(): void {
+    this.forward((handler) => handler.cancel());
+  }
+
+  request(requestN: number): void {
+    this.forward((handler) => handler.request?.(requestN));
+  }
+
+  onNext(payload: Payload, isComplete: boolean): void {
+    this.forward((handler) => handler.onNext?.(payload, isComplete));
+  }
+
+  onError(error: Error): void {
+    this.forward((handler) => handler.onError?.(error));
+  }
+
+  onComplete(): void {
+    this.forward((handler) => handler.onComplete?.());
+  }
+
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    this.forward((handler) =>
+      handler.onExtension?.(extendedType, content, canBeIgnored)
+    );
+  }
+
+  protected forward(signal: (handler: RequestHandler) => void): void {
+    signal(this.handler);
+  }
+}
+
+/**
+ * Passes every signal of the response through to the receiver. Decorators of
+ * a response override the signals they act upon.
+ */
+export class ForwardingSubscriber
+  implements
+    OnTerminalSubscriber,
+    OnNextSubscriber,
+    OnExtensionSubscriber,
+    Requestable,
+    Cancellable
+{
+  constructor(protected readonly receiver: ResponseReceiver) {}
+
+  onNext(payload: Payload, isComplete: boolean): void {
+    this.receiver.onNext?.(payload, isComplete);
+  }
+
+  onError(error: Error): void {
+    this.receiver.onError(error);
+  }
+
+  onComplete(): void {
+    this.receiver.onComplete();
+  }
+
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    this.receiver.onExtension?.(extendedType, content, canBeIgnored);
+  }
+
+  request(requestN: number): void {
+    this.receiver.request?.(requestN);
+  }
+
+  cancel(): void {
+    this.receiver.cancel?.();
+  }
+}
@@ -0,0 +1,194 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Flags, Frame, FrameTypes } from "./Frames";
+
+export type FrameDirection = "inbound" | "outbound";
+
+/**
+ * Receives every frame sent or received by a `DuplexConnection`, along with
+ * the time in milliseconds the frame was sent or received at.
+ */
+export type FrameObserver = (
+  frame: Frame,
+  direction: FrameDirection,
+  timestamp: number
+) => void;
+
+const MAX_PREVIEW_LENGTH = 64;
+
+/**
+ * Returns a `FrameObserver` which prints the frames with `printFrame`.
+ * Frames are printed with `console.log` unless another `log` is given.
+ */
+export function logFrames(
+  log: (message: string) => void = console.log
+): FrameObserver {
+  return (frame, direction, timestamp) =>
+    log(
+      `${new Date(timestamp).toISOString()} ${
+        direction === "inbound" ? "<<" : ">>"
+      } ${printFrame(frame)}`
+    );
+}
+
+/**
+ * Returns a human readable single line representation of the given frame.
+ */
+export function printFrame(frame: Frame): string {
+  const parts = [
+    FrameTypes[frame.type] ?? `UNKNOWN(0x${frame.type.toString(16)})`,
+    `streamId=${frame.streamId}`,
+    `flags=0x${frame.flags.toString(16)}${printFlags(frame)}`,
+  ];
+
+  switch (frame.type) {
+    case FrameTypes.SETUP:
+      parts.push(
+        `version=${frame.majorVersion}.${frame.minorVersion}`,
+        `keepAlive=${frame.keepAlive}`,
+        `lifetime=${frame.lifetime}`,
+        `dataMimeType=${frame.dataMimeType}`,
+        `metadataMimeType=${frame.metadataMimeType}`
+      );
+      break;
+    case FrameTypes.LEASE:
+      parts.push(`ttl=${frame.ttl}`, `requestCount=${frame.requestCount}`);
+      break;
+    case FrameTypes.KEEPALIVE:
+      parts.push(`lastReceivedPosition=${frame.lastReceivedPosition}`);
+      break;
+    case FrameTypes.REQUEST_STREAM:
+    case FrameTypes.REQUEST_CHANNEL:
+    case FrameTypes.REQUEST_N:
+      parts.push(`requestN=${frame.requestN}`);
+      break;
+    case FrameTypes.ERROR:
+      parts.push(
+        `code=0x${frame.code.toString(16)}`,
+        `message=${frame.message}`
+      );
+      break;
+    case FrameTypes.RESUME:
+      parts.push(
+        `clientPosition=${frame.clientPosition}`,
+        `serverPosition=${frame.serverPosition}`
+      );
+      break;
+    case FrameTypes.RESUME_OK:
+      parts.push(`clientPosition=${frame.clientPosition}`);
+      break;
+    case FrameTypes.EXT:
+      parts.push(
+        `extendedType=${frame.extendedType}`,
+        `extendedContent=${printBuffer(frame.extendedContent)}`
+      );
+      break;
+  }
+
+  if ("metadata" in frame && frame.metadata) {
+    parts.push(`metadata=${printBuffer(frame.metadata)}`);
+  }
+
+  if ("data" in frame && frame.data) {
+    parts.push(`data=${printBuffer(frame.data)}`);
+  }
+
+  return parts.join(" ");
+}
+
+function printFlags(frame: Frame): string {
+  const flags = frame.flags;
+  const names = [];
+
+  if (Flags.hasMetadata(flags)) {
+    names.push("METADATA");
+  }
+
+  if (Flags.hasIgnore(flags)) {
+    names.push("IGNORE");
+  }
+
+  // the same bits have different meaning depending on the frame type
+  switch (frame.type) {
+    case FrameTypes.SETUP:
+      if (Flags.hasLease(flags)) {
+        names.push("LEASE");
+      }
+      if (Flags.hasResume(flags)) {
+        names.push("RESUME_ENABLE");
+      }
+      break;
+    case FrameTypes.KEEPALIVE:
+      if (Flags.hasRespond(flags)) {
+        names.push("RESPOND");
+      }
+      break;
+    case FrameTypes.PAYLOAD:
+    case FrameTypes.REQUEST_CHANNEL:
+    case FrameTypes.REQUEST_RESPONSE:
+    case FrameTypes.REQUEST_FNF:
+    case FrameTypes.REQUEST_STREAM:
+      if (Flags.hasFollows(flags)) {
+        names.push("FOLLOWS");
+      }
+      if (
+        (frame.type === FrameTypes.PAYLOAD ||
+          frame.type === FrameTypes.REQUEST_CHANNEL) &&
+        Flags.hasComplete(flags)
+      ) {
+        names.push("COMPLETE");
+      }
+      if (frame.type === FrameTypes.PAYLOAD && Flags.hasNext(flags)) {
+        names.push("NEXT");
+      }
+      break;
+  }
+
+  return names.length ? ` (${names.join("|")})` : "";
+}
+
+/**
+ * Prints the buffer as a string if it is a printable utf8 text, otherwise
+ * as hex. Only the first bytes of long buffers are printed.
+ */
+function printBuffer(buffer: Buffer | null | undefined): string {
+  if (!buffer) {
+    return "<empty>";
+  }
+
+  const preview = buffer.slice(0, MAX_PREVIEW_LENGTH);
+  const truncated =
+    buffer.length > MAX_PREVIEW_LENGTH ? `...(${buffer.length} bytes)` : "";
+  const text = preview.toString("utf8");
+
+  if (isPrintable(text)) {
+    return `"${text}"${truncated}`;
+  }
+
+  return `0x${preview.toString("hex")}${truncated}`;
+}
+
+function isPrintable(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    // control characters and the utf8 replacement character
+    if ((code < 0x20 && code !== 0x09) || code === 0x7f || code === 0xfffd) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -97,6 +97,7 @@ export namespace Frame {
     | KeepAliveFrame
     | ErrorFrame
     | MetadataPushFrame
+    | ExtFrame
     | UnsupportedFrame {
     return frame.streamId === 0;
   }
@@ -113,6 +114,12 @@ export namespace Frame {
       frame.type <= FrameTypes.REQUEST_CHANNEL
     );
   }
+
+  export function isUnsupported(frame: Frame): frame is UnsupportedFrame {
+    return (
+      frame.type === FrameTypes.RESERVED || FrameTypes[frame.type] === undefined
+    );
+  }
 }
 
 export type Frame =
@@ -266,8 +273,12 @@ export type ExtFrame = {
   extendedContent?: Buffer;
 };
 
+/**
+ * Frame of the RESERVED type or of a type which is not known. Only the header
+ * of such a frame is decoded, `type` keeps the type as received.
+ */
 export type UnsupportedFrame = {
   type: FrameTypes.RESERVED;
-  streamId: 0;
+  streamId: number;
   flags: number;
 };
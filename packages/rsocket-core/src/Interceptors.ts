@@ -0,0 +1,345 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Availability } from "./Common";
+import {
+  ForwardingRequest,
+  ForwardingSubscriber,
+  RequestHandler,
+  ResponseReceiver,
+} from "./Forwarding";
+import { FrameTypes } from "./Frames";
+import {
+  Cancellable,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  Payload,
+  Requestable,
+  RequestOptions,
+  RSocket,
+  SocketAcceptor,
+} from "./RSocket";
+import { DuplexConnection } from "./Transport";
+
+/**
+ * Decorates the requester `RSocket`. The returned `RSocket` is expected to
+ * delegate to the given one, see `RequestInterceptor` for the simplest way
+ * to observe the requests.
+ */
+export type RSocketInterceptor = (
+  rsocket: RSocket & Availability
+) => RSocket & Availability;
+
+/**
+ * Decorates the responder. Interactions the given responder does not support
+ * should be kept undefined, so the requests are rejected as unsupported.
+ */
+export type ResponderInterceptor = (
+  responder: Partial<RSocket>
+) => Partial<RSocket>;
+
+export type SocketAcceptorInterceptor = (
+  acceptor: SocketAcceptor
+) => SocketAcceptor;
+
+/**
+ * Decorates the connection right after it is established, before any frame
+ * is exchanged. The transport keeps delivering the inbound frames to the
+ * original `multiplexerDemultiplexer`, which is also the `Stream` the frames
+ * of each stream are sent through. Hence a decorated `multiplexerDemultiplexer`
+ * only sees the frames which pass through its `connectionOutbound` and
+ * through the handlers and the streams it is given with `connectionInbound`,
+ * `handleRequestStream` and `createRequestStream`. Use the `frameObserver`
+ * of the transport to observe all the frames.
+ */
+export type DuplexConnectionInterceptor = (
+  connection: DuplexConnection
+) => DuplexConnection;
+
+/**
+ * Interceptors of each kind are composed in the given order, the first one
+ * being the outermost, so it is the first to see a request and the last to
+ * see its signals.
+ */
+export type InterceptorsConfig = {
+  requester?: Array<RSocketInterceptor>;
+  responder?: Array<ResponderInterceptor>;
+  connection?: Array<DuplexConnectionInterceptor>;
+};
+
+export function intercept<T>(
+  source: T,
+  interceptors: Array<(source: T) => T> | undefined
+): T {
+  if (!interceptors) {
+    return source;
+  }
+
+  return interceptors.reduceRight(
+    (intercepted, interceptor) => interceptor(intercepted),
+    source
+  );
+}
+
+/**
+ * Observes the requests made by the requester or handled by the responder.
+ */
+export interface RequestInterceptor {
+  /**
+   * Called when a request is made. The returned payload, if any, is sent
+   * instead of the given one, e.g. to add authentication metadata.
+   */
+  onStart?(type: FrameTypes, payload: Payload): Payload | void;
+
+  /**
+   * Called when the responder terminates the request, with the error if any.
+   */
+  onTerminate?(type: FrameTypes, error?: Error): void;
+
+  /**
+   * Called when the requester cancels the request.
+   */
+  onCancel?(type: FrameTypes): void;
+}
+
+export namespace RequestInterceptor {
+  export function forRequester(
+    interceptor: RequestInterceptor
+  ): RSocketInterceptor {
+    return (rsocket) => {
+      const intercepted = interceptRequests(rsocket, interceptor);
+      Object.defineProperties(intercepted, {
+        availability: { get: () => rsocket.availability },
+        lastRtt: { get: () => rsocket.lastRtt },
+        smoothedRtt: { get: () => rsocket.smoothedRtt },
+      });
+      return intercepted as RSocket & Availability;
+    };
+  }
+
+  export function forResponder(
+    interceptor: RequestInterceptor
+  ): ResponderInterceptor {
+    return (responder) => interceptRequests(responder, interceptor);
+  }
+}
+
+function interceptRequests(
+  rsocket: Partial<RSocket>,
+  interceptor: RequestInterceptor
+): Partial<RSocket> {
+  const intercepted: Partial<RSocket> = {};
+
+  if (rsocket.fireAndForget) {
+    intercepted.fireAndForget = (
+      payload: Payload,
+      responderStream: OnTerminalSubscriber,
+      options?: RequestOptions
+    ) => {
+      const type = FrameTypes.REQUEST_FNF;
+      const subscriber = new InterceptingSubscriber(
+        type,
+        responderStream,
+        interceptor
+      );
+      return new InterceptedRequest(
+        type,
+        rsocket.fireAndForget(
+          interceptor.onStart?.(type, payload) || payload,
+          subscriber,
+          options
+        ),
+        subscriber,
+        interceptor
+      );
+    };
+  }
+
+  if (rsocket.requestResponse) {
+    intercepted.requestResponse = (
+      payload: Payload,
+      responderStream: OnTerminalSubscriber &
+        OnNextSubscriber &
+        OnExtensionSubscriber,
+      options?: RequestOptions
+    ) => {
+      const type = FrameTypes.REQUEST_RESPONSE;
+      const subscriber = new InterceptingSubscriber(
+        type,
+        responderStream,
+        interceptor
+      );
+      return new InterceptedRequest(
+        type,
+        rsocket.requestResponse(
+          interceptor.onStart?.(type, payload) || payload,
+          subscriber,
+          options
+        ),
+        subscriber,
+        interceptor
+      );
+    };
+  }
+
+  if (rsocket.requestStream) {
+    intercepted.requestStream = (
+      payload: Payload,
+      initialRequestN: number,
+      responderStream: OnTerminalSubscriber &
+        OnNextSubscriber &
+        OnExtensionSubscriber,
+      options?: RequestOptions
+    ) => {
+      const type = FrameTypes.REQUEST_STREAM;
+      const subscriber = new InterceptingSubscriber(
+        type,
+        responderStream,
+        interceptor
+      );
+      return new InterceptedRequest(
+        type,
+        rsocket.requestStream(
+          interceptor.onStart?.(type, payload) || payload,
+          initialRequestN,
+          subscriber,
+          options
+        ),
+        subscriber,
+        interceptor
+      );
+    };
+  }
+
+  if (rsocket.requestChannel) {
+    intercepted.requestChannel = (
+      payload: Payload,
+      initialRequestN: number,
+      isCompleted: boolean,
+      responderStream: OnTerminalSubscriber &
+        OnNextSubscriber &
+        OnExtensionSubscriber &
+        Requestable &
+        Cancellable,
+      options?: RequestOptions
+    ) => {
+      const type = FrameTypes.REQUEST_CHANNEL;
+      const subscriber = new InterceptingSubscriber(
+        type,
+        responderStream,
+        interceptor
+      );
+      return new InterceptedRequest(
+        type,
+        rsocket.requestChannel(
+          interceptor.onStart?.(type, payload) || payload,
+          initialRequestN,
+          isCompleted,
+          subscriber,
+          options
+        ),
+        subscriber,
+        interceptor
+      );
+    };
+  }
+
+  if (rsocket.metadataPush) {
+    intercepted.metadataPush = rsocket.metadataPush.bind(rsocket);
+  }
+
+  if (rsocket.onExtension) {
+    intercepted.onExtension = rsocket.onExtension.bind(rsocket);
+  }
+
+  if (rsocket.close) {
+    intercepted.close = rsocket.close.bind(rsocket);
+  }
+
+  if (rsocket.onClose) {
+    intercepted.onClose = rsocket.onClose.bind(rsocket);
+  }
+
+  if (rsocket.dispose) {
+    intercepted.dispose = rsocket.dispose.bind(rsocket);
+  }
+
+  return intercepted;
+}
+
+class InterceptingSubscriber extends ForwardingSubscriber {
+  private done = false;
+
+  constructor(
+    private readonly type: FrameTypes,
+    receiver: ResponseReceiver,
+    private readonly interceptor: RequestInterceptor
+  ) {
+    super(receiver);
+  }
+
+  /**
+   * Returns `false` if the request has already been terminated.
+   */
+  terminate(): boolean {
+    if (this.done) {
+      return false;
+    }
+
+    this.done = true;
+    return true;
+  }
+
+  onNext(payload: Payload, isComplete: boolean): void {
+    if (isComplete && this.terminate()) {
+      this.interceptor.onTerminate?.(this.type);
+    }
+    super.onNext(payload, isComplete);
+  }
+
+  onError(error: Error): void {
+    if (this.terminate()) {
+      this.interceptor.onTerminate?.(this.type, error);
+    }
+    super.onError(error);
+  }
+
+  onComplete(): void {
+    if (this.terminate()) {
+      this.interceptor.onTerminate?.(this.type);
+    }
+    super.onComplete();
+  }
+}
+
+class InterceptedRequest extends ForwardingRequest {
+  constructor(
+    private readonly type: FrameTypes,
+    handler: RequestHandler,
+    private readonly subscriber: InterceptingSubscriber,
+    private readonly interceptor: RequestInterceptor
+  ) {
+    super(handler);
+  }
+
+  cancel(): void {
+    if (this.subscriber.terminate()) {
+      this.interceptor.onCancel?.(this.type);
+    }
+    super.cancel();
+  }
+}
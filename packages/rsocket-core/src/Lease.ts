@@ -14,9 +14,164 @@
  * limitations under the License.
  */
 
+import { Availability } from "./Common";
+import { Cancellable } from "./RSocket";
 import { StreamFrameHandler, StreamLifecycleHandler } from "./Transport";
 
-export interface LeaseManager {
+/**
+ * Requester side of the lease. `availability` is the fraction of the last
+ * received lease which remains available, `0` once the lease is expired.
+ */
+export interface LeaseManager extends Availability {
   requestLease(handler: StreamFrameHandler & StreamLifecycleHandler): void;
   cancelRequest(handler: StreamFrameHandler & StreamLifecycleHandler): void;
+  /**
+   * Rejects the requests which are waiting for a lease with the given error.
+   */
+  rejectPendingRequests(error: Error): void;
+}
+
+/**
+ * A lease granted by the responder to the requester of a connection.
+ */
+export type Lease = {
+  /**
+   * Time in milliseconds the lease is valid for, starting from the moment it is sent.
+   */
+  ttl: number;
+  /**
+   * Number of requests the requester may send until the lease expires.
+   */
+  requestCount: number;
+  metadata?: Buffer;
+};
+
+/**
+ * Responder side stats of a connection which may be used to decide on the next lease.
+ */
+export interface LeaseStats {
+  /**
+   * Number of requests which are being handled by the responder at the moment.
+   */
+  readonly activeStreams: number;
+  /**
+   * Latencies in milliseconds of the most recently completed requests, the oldest first.
+   */
+  readonly latencies: ReadonlyArray<number>;
+  /**
+   * Number of requests which remain available within the last sent lease.
+   */
+  readonly availableLease: number;
+}
+
+export interface LeaseSink {
+  /**
+   * Sends a LEASE frame to the requester. The given lease supersedes the
+   * previously sent one.
+   */
+  send(lease: Lease): void;
+}
+
+/**
+ * Strategy issuing leases on the responder side of a connection.
+ */
+export interface LeaseSender {
+  /**
+   * Starts issuing leases for a newly established connection. Leases may be
+   * sent either on a schedule or on demand through the given `sink`. The
+   * returned `Cancellable` is cancelled once the connection is closed.
+   */
+  start(stats: LeaseStats, sink: LeaseSink): Cancellable;
+}
+
+export namespace LeaseSender {
+  /**
+   * Sends a lease with the same `requestCount` and `ttl` every `period`
+   * milliseconds. `period` defaults to `ttl`.
+   */
+  export function fixedRate(options: {
+    ttl: number;
+    requestCount: number;
+    period?: number;
+    metadata?: Buffer;
+  }): LeaseSender {
+    return new FixedRateLeaseSender(
+      options.ttl,
+      options.requestCount,
+      options.period ?? options.ttl,
+      options.metadata
+    );
+  }
+
+  /**
+   * Sends a lease every `period` milliseconds which allows at most
+   * `maxConcurrency` requests to be handled at the same time. `period`
+   * defaults to `ttl`.
+   */
+  export function concurrencyLimit(options: {
+    maxConcurrency: number;
+    ttl: number;
+    period?: number;
+  }): LeaseSender {
+    return new ConcurrencyLimitLeaseSender(
+      options.maxConcurrency,
+      options.ttl,
+      options.period ?? options.ttl
+    );
+  }
+
+  class FixedRateLeaseSender implements LeaseSender {
+    constructor(
+      private readonly ttl: number,
+      private readonly requestCount: number,
+      private readonly period: number,
+      private readonly metadata?: Buffer
+    ) {}
+
+    start(stats: LeaseStats, sink: LeaseSink): Cancellable {
+      const sendLease = () =>
+        sink.send({
+          ttl: this.ttl,
+          requestCount: this.requestCount,
+          metadata: this.metadata,
+        });
+
+      sendLease();
+
+      const intervalId = setInterval(sendLease, this.period);
+
+      return {
+        cancel: () => clearInterval(intervalId),
+      };
+    }
+  }
+
+  class ConcurrencyLimitLeaseSender implements LeaseSender {
+    constructor(
+      private readonly maxConcurrency: number,
+      private readonly ttl: number,
+      private readonly period: number
+    ) {}
+
+    start(stats: LeaseStats, sink: LeaseSink): Cancellable {
+      const sendLease = () => {
+        const requestCount = this.maxConcurrency - stats.activeStreams;
+        // lease with zero requests is not allowed by the spec
+        if (requestCount > 0) {
+          sink.send({
+            ttl: this.ttl,
+            requestCount,
+          });
+        }
+      };
+
+      sendLease();
+
+      const intervalId = setInterval(sendLease, this.period);
+
+      return {
+        cancel: () => clearInterval(intervalId),
+      };
+    }
+  }
 }
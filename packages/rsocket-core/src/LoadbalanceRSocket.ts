@@ -0,0 +1,469 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Availability, DisposeOptions } from "./Common";
+import { Deferred } from "./Deferred";
+import { ErrorCodes, RSocketError } from "./Errors";
+import {
+  ForwardingRequest,
+  ForwardingSubscriber,
+  RequestHandler,
+  ResponseReceiver,
+} from "./Forwarding";
+import {
+  Backoff,
+  ReconnectingRSocket,
+  ReconnectOptions,
+} from "./ReconnectingRSocket";
+import {
+  Cancellable,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  Payload,
+  Requestable,
+  RequestOptions,
+  RSocket,
+} from "./RSocket";
+import { ClientTransport } from "./Transport";
+
+/**
+ * Stats of a target of the `LoadbalanceRSocket`.
+ */
+export interface LoadbalanceTarget extends Availability {
+  readonly transport: ClientTransport;
+  /**
+   * Number of requests sent to the target which are not terminated yet.
+   */
+  readonly inFlight: number;
+  /**
+   * Exponentially weighted moving average of the time in milliseconds to the
+   * first response of a request. The keep-alive round trip time stands for it
+   * until the first response is received, `0` if none is measured either.
+   */
+  readonly latency: number;
+}
+
+/**
+ * Strategy choosing the target each request is sent to.
+ */
+export interface LoadbalanceStrategy {
+  /**
+   * Returns one of the given non-empty list of available targets.
+   */
+  select<T extends LoadbalanceTarget>(targets: ReadonlyArray<T>): T;
+}
+
+export namespace LoadbalanceStrategy {
+  /**
+   * Sends the requests to the targets in turn.
+   */
+  export function roundRobin(): LoadbalanceStrategy {
+    let next = 0;
+
+    return {
+      select: (targets) => targets[next++ % targets.length],
+    };
+  }
+
+  /**
+   * Sends the requests to the target with the least load, computed from the
+   * number of requests in flight weighted by the latency and the availability
+   * of the target.
+   */
+  export function weightedLeastLoaded(): LoadbalanceStrategy {
+    return {
+      select: (targets) => {
+        let selected = targets[0];
+        let minLoad = load(selected);
+
+        for (let i = 1; i < targets.length; i++) {
+          const targetLoad = load(targets[i]);
+          if (targetLoad < minLoad) {
+            selected = targets[i];
+            minLoad = targetLoad;
+          }
+        }
+
+        return selected;
+      },
+    };
+  }
+
+  function load(target: LoadbalanceTarget): number {
+    // a target without measured latency is weighted as the fastest one, so
+    // it gets requests and its latency gets measured
+    return (
+      ((target.inFlight + 1) * Math.max(target.latency, 1)) /
+      target.availability
+    );
+  }
+}
+
+export type LoadbalanceOptions = {
+  /**
+   * Defaults to `LoadbalanceStrategy.roundRobin()`.
+   */
+  strategy?: LoadbalanceStrategy;
+  /**
+   * Options of the reconnection to the targets which lost their connection.
+   * Requests are never queued by a target, since they are sent to the
+   * connected targets only. A target closed after `maxAttempts` is dialed
+   * again after the `backoff` delay, as long as it is part of the targets.
+   */
+  reconnect?: Omit<
+    ReconnectOptions,
+    "whileDisconnected" | "maxPendingRequests"
+  >;
+};
+
+/**
+ * A `RSocket` which keeps a connection to each of the given targets and sends
+ * every request to a target chosen by the `LoadbalanceStrategy`. Targets which
+ * are not available, e.g. lost their connection or ran out of lease, do not
+ * get requests until they are available again.
+ */
+export class LoadbalanceRSocket
+  extends Deferred
+  implements RSocket, Availability
+{
+  private readonly strategy: LoadbalanceStrategy;
+  private readonly backoff: Backoff;
+  private targets: Array<PooledTarget> = [];
+
+  constructor(
+    private readonly connect: (
+      transport: ClientTransport
+    ) => Promise<RSocket & Availability>,
+    transports: Array<ClientTransport>,
+    private readonly options: LoadbalanceOptions = {}
+  ) {
+    super();
+
+    this.strategy = options.strategy ?? LoadbalanceStrategy.roundRobin();
+    this.backoff =
+      options.reconnect?.backoff ??
+      Backoff.exponential({ initialDelay: 1000, maxDelay: 30000 });
+    this.update(transports);
+  }
+
+  /**
+   * The availability of the most available target.
+   */
+  get availability(): number {
+    let availability = 0;
+    for (const target of this.targets) {
+      availability = Math.max(availability, target.availability);
+    }
+    return availability;
+  }
+
+  /**
+   * Replaces the list of targets. Connections are established to the new
+   * targets, while the connections to the removed ones are disposed once their
+   * active requests are terminated.
+   */
+  update(transports: Array<ClientTransport>): void {
+    if (this.done) {
+      return;
+    }
+
+    const targets: Array<PooledTarget> = [];
+    for (const target of this.targets) {
+      if (transports.indexOf(target.transport) > -1) {
+        targets.push(target);
+      } else {
+        clearTimeout(target.redialTimeoutId);
+        target.rsocket.dispose().catch((error) => target.rsocket.close(error));
+      }
+    }
+
+    for (const transport of transports) {
+      if (!targets.some((target) => target.transport === transport)) {
+        targets.push(this.createTarget(transport));
+      }
+    }
+
+    this.targets = targets;
+  }
+
+  fireAndForget(
+    payload: Payload,
+    responderStream: OnTerminalSubscriber,
+    options?: RequestOptions
+  ): Cancellable {
+    return this.request(responderStream, (rsocket, receiver) =>
+      rsocket.fireAndForget(payload, receiver, options)
+    );
+  }
+
+  requestResponse(
+    payload: Payload,
+    responderStream: OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber,
+    options?: RequestOptions
+  ): Cancellable & OnExtensionSubscriber {
+    return this.request(responderStream, (rsocket, receiver) =>
+      rsocket.requestResponse(payload, receiver, options)
+    );
+  }
+
+  requestStream(
+    payload: Payload,
+    initialRequestN: number,
+    responderStream: OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber,
+    options?: RequestOptions
+  ): Requestable & Cancellable & OnExtensionSubscriber {
+    return this.request(responderStream, (rsocket, receiver) =>
+      rsocket.requestStream(payload, initialRequestN, receiver, options)
+    );
+  }
+
+  requestChannel(
+    payload: Payload,
+    initialRequestN: number,
+    isCompleted: boolean,
+    responderStream: OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber &
+      Requestable &
+      Cancellable,
+    options?: RequestOptions
+  ): OnTerminalSubscriber &
+    OnNextSubscriber &
+    OnExtensionSubscriber &
+    Requestable &
+    Cancellable {
+    return this.request(responderStream, (rsocket, receiver) =>
+      rsocket.requestChannel(
+        payload,
+        initialRequestN,
+        isCompleted,
+        receiver,
+        options
+      )
+    );
+  }
+
+  /**
+   * Sent to a single target chosen by the strategy.
+   */
+  metadataPush(metadata: Buffer, responderStream: OnTerminalSubscriber): void {
+    const target = this.select();
+    if (!target) {
+      responderStream.onError(noAvailableTargetError());
+      return;
+    }
+
+    target.rsocket.metadataPush(metadata, responderStream);
+  }
+
+  /**
+   * Sent to a single target chosen by the strategy.
+   */
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    this.select()?.rsocket.onExtension(extendedType, content, canBeIgnored);
+  }
+
+  close(error?: Error): void {
+    if (this.done) {
+      return;
+    }
+
+    for (const target of this.targets.splice(0)) {
+      clearTimeout(target.redialTimeoutId);
+      target.rsocket.close(error);
+    }
+
+    super.close(error);
+  }
+
+  async dispose(options?: DisposeOptions): Promise<void> {
+    if (this.done) {
+      return;
+    }
+
+    const targets = this.targets.splice(0);
+    for (const target of targets) {
+      clearTimeout(target.redialTimeoutId);
+    }
+
+    await Promise.all(targets.map((target) => target.rsocket.dispose(options)));
+
+    if (!this.done) {
+      super.close();
+    }
+  }
+
+  private createTarget(
+    transport: ClientTransport,
+    redials: number = 0
+  ): PooledTarget {
+    const rsocket = new ReconnectingRSocket(() => this.connect(transport), {
+      ...this.options.reconnect,
+      whileDisconnected: "fail",
+    });
+    const target = new PooledTarget(transport, rsocket);
+
+    rsocket.on("connected", () => (redials = 0));
+    rsocket.on("closed", () => {
+      // the closed target stays in place, unavailable, until it is redialed
+      if (this.done || this.targets.indexOf(target) === -1) {
+        return;
+      }
+
+      target.redialTimeoutId = setTimeout(() => {
+        const index = this.targets.indexOf(target);
+        if (index > -1) {
+          this.targets[index] = this.createTarget(transport, redials + 1);
+        }
+      }, this.backoff.delay(redials));
+    });
+    // failing to connect is signalled by the target being closed
+    rsocket.start().catch(() => {});
+
+    return target;
+  }
+
+  private select(): PooledTarget | undefined {
+    const targets = this.targets.filter((target) => target.availability > 0);
+
+    return targets.length ? this.strategy.select(targets) : undefined;
+  }
+
+  private request<T extends Cancellable>(
+    receiver: ResponseReceiver,
+    requester: (rsocket: RSocket, receiver: TrackingSubscriber) => T
+  ): T | TrackedRequest {
+    const target = this.select();
+    if (!target) {
+      receiver.onError(noAvailableTargetError());
+      return new TrackedRequest({ cancel: () => {} });
+    }
+
+    const subscriber = new TrackingSubscriber(receiver, target);
+
+    return new TrackedRequest(
+      requester(target.rsocket, subscriber),
+      subscriber
+    );
+  }
+}
+
+function noAvailableTargetError(): Error {
+  return new RSocketError(ErrorCodes.REJECTED, "No available target");
+}
+
+// weight of the most recent sample in the latency average
+const LATENCY_DECAY = 0.3;
+
+class PooledTarget implements LoadbalanceTarget {
+  inFlight = 0;
+  redialTimeoutId: any;
+  private measuredLatency = 0;
+
+  constructor(
+    readonly transport: ClientTransport,
+    readonly rsocket: ReconnectingRSocket
+  ) {}
+
+  get availability(): number {
+    return this.rsocket.availability;
+  }
+
+  get latency(): number {
+    return this.measuredLatency || (this.rsocket.smoothedRtt ?? 0);
+  }
+
+  record(latency: number): void {
+    this.measuredLatency = this.measuredLatency
+      ? LATENCY_DECAY * latency + (1 - LATENCY_DECAY) * this.measuredLatency
+      : latency;
+  }
+}
+
+class TrackingSubscriber extends ForwardingSubscriber {
+  private readonly startTime = Date.now();
+  private responded = false;
+  private done = false;
+
+  constructor(
+    receiver: ResponseReceiver,
+    private readonly target: PooledTarget
+  ) {
+    super(receiver);
+    target.inFlight++;
+  }
+
+  finish(): void {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    this.target.inFlight--;
+  }
+
+  onNext(payload: Payload, isComplete: boolean): void {
+    this.respond();
+    if (isComplete) {
+      this.finish();
+    }
+    super.onNext(payload, isComplete);
+  }
+
+  onError(error: Error): void {
+    this.respond();
+    this.finish();
+    super.onError(error);
+  }
+
+  onComplete(): void {
+    this.respond();
+    this.finish();
+    super.onComplete();
+  }
+
+  private respond(): void {
+    if (this.responded) {
+      return;
+    }
+
+    this.responded = true;
+    this.target.record(Date.now() - this.startTime);
+  }
+}
+
+class TrackedRequest extends ForwardingRequest {
+  constructor(
+    handler: RequestHandler,
+    private readonly subscriber?: TrackingSubscriber
+  ) {
+    super(handler);
+  }
+
+  cancel(): void {
+    this.subscriber?.finish();
+    super.cancel();
+  }
+}
@@ -0,0 +1,413 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { sizeOfFrame } from "./Codecs";
+import { FrameDirection } from "./FrameObserver";
+import { Flags, Frame, FrameTypes } from "./Frames";
+
+export type MetricLabels = { [name: string]: string };
+
+export interface Counter {
+  /**
+   * Increments the counter by the given non negative amount, `1` by default.
+   */
+  increment(amount?: number): void;
+}
+
+export interface Gauge {
+  set(value: number): void;
+
+  increment(amount?: number): void;
+
+  decrement(amount?: number): void;
+}
+
+export interface Histogram {
+  record(value: number): void;
+}
+
+/**
+ * Creates the instruments the metrics are recorded with, which allows to plug
+ * any metrics library in. Repeated calls with the same name and labels are
+ * expected to return the same instrument.
+ */
+export interface MetricsRegistry {
+  counter(name: string, help: string, labels?: MetricLabels): Counter;
+
+  gauge(name: string, help: string, labels?: MetricLabels): Gauge;
+
+  histogram(name: string, help: string, labels?: MetricLabels): Histogram;
+}
+
+export const DEFAULT_HISTOGRAM_BUCKETS: ReadonlyArray<number> = [
+  0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Series {
+  samples(name: string, labels: string): Array<string>;
+}
+
+type MetricFamily = {
+  type: MetricType;
+  help: string;
+  series: { [labels: string]: Series };
+};
+
+/**
+ * Keeps the metrics in memory and renders them in the Prometheus text
+ * exposition format, e.g. to be served on a `/metrics` endpoint.
+ */
+export class InMemoryMetricsRegistry implements MetricsRegistry {
+  private readonly families: { [name: string]: MetricFamily } = {};
+
+  constructor(
+    private readonly buckets: ReadonlyArray<number> = DEFAULT_HISTOGRAM_BUCKETS
+  ) {}
+
+  counter(name: string, help: string, labels?: MetricLabels): Counter {
+    return this.series(
+      name,
+      help,
+      "counter",
+      labels,
+      () => new CounterSeries()
+    ) as CounterSeries;
+  }
+
+  gauge(name: string, help: string, labels?: MetricLabels): Gauge {
+    return this.series(
+      name,
+      help,
+      "gauge",
+      labels,
+      () => new GaugeSeries()
+    ) as GaugeSeries;
+  }
+
+  histogram(name: string, help: string, labels?: MetricLabels): Histogram {
+    return this.series(
+      name,
+      help,
+      "histogram",
+      labels,
+      () => new HistogramSeries(this.buckets)
+    ) as HistogramSeries;
+  }
+
+  render(): string {
+    const lines: Array<string> = [];
+
+    for (const name in this.families) {
+      const family = this.families[name];
+
+      lines.push(`# HELP ${name} ${escapeHelp(family.help)}`);
+      lines.push(`# TYPE ${name} ${family.type}`);
+
+      for (const labels in family.series) {
+        lines.push(...family.series[labels].samples(name, labels));
+      }
+    }
+
+    return lines.length ? `${lines.join("\n")}\n` : "";
+  }
+
+  private series(
+    name: string,
+    help: string,
+    type: MetricType,
+    labels: MetricLabels | undefined,
+    create: () => Series
+  ): Series {
+    let family = this.families[name];
+    if (!family) {
+      family = this.families[name] = { type, help, series: {} };
+    } else if (family.type !== type) {
+      throw new Error(
+        `Metric [${name}] has already been registered as a ${family.type}`
+      );
+    }
+
+    const key = printLabels(labels);
+    return family.series[key] ?? (family.series[key] = create());
+  }
+}
+
+class CounterSeries implements Counter, Series {
+  private value: number = 0;
+
+  increment(amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error("Counter can not be decremented");
+    }
+
+    this.value += amount;
+  }
+
+  samples(name: string, labels: string): Array<string> {
+    return [`${name}${labels} ${printValue(this.value)}`];
+  }
+}
+
+class GaugeSeries implements Gauge, Series {
+  private value: number = 0;
+
+  set(value: number): void {
+    this.value = value;
+  }
+
+  increment(amount: number = 1): void {
+    this.value += amount;
+  }
+
+  decrement(amount: number = 1): void {
+    this.value -= amount;
+  }
+
+  samples(name: string, labels: string): Array<string> {
+    return [`${name}${labels} ${printValue(this.value)}`];
+  }
+}
+
+class HistogramSeries implements Histogram, Series {
+  private readonly counts: Array<number>;
+  private count: number = 0;
+  private sum: number = 0;
+
+  constructor(private readonly buckets: ReadonlyArray<number>) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  record(value: number): void {
+    this.count++;
+    this.sum += value;
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        this.counts[i]++;
+      }
+    }
+  }
+
+  samples(name: string, labels: string): Array<string> {
+    const bucketLabels = (le: string) =>
+      labels ? `${labels.slice(0, -1)},le="${le}"}` : `{le="${le}"}`;
+    const samples = this.buckets.map(
+      (bucket, i) =>
+        `${name}_bucket${bucketLabels(printValue(bucket))} ${this.counts[i]}`
+    );
+
+    samples.push(`${name}_bucket${bucketLabels("+Inf")} ${this.count}`);
+    samples.push(`${name}_sum${labels} ${printValue(this.sum)}`);
+    samples.push(`${name}_count${labels} ${this.count}`);
+
+    return samples;
+  }
+}
+
+function printLabels(labels: MetricLabels | undefined): string {
+  const names = labels ? Object.keys(labels) : [];
+  if (!names.length) {
+    return "";
+  }
+
+  return `{${names
+    .map(
+      (name) =>
+        `${name}="${labels[name]
+          .replace(/\\/g, "\\\\")
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, "\\n")}"`
+    )
+    .join(",")}}`;
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function printValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+
+  return `${value}`;
+}
+
+/**
+ * Metrics of the connections established by a connector or accepted by a
+ * server, recorded with the given registry.
+ */
+export class RSocketMetrics {
+  private readonly activeConnections: Gauge;
+  private readonly activeStreams: { [type: number]: Gauge } = {};
+  private readonly frames: { [key: string]: Counter } = {};
+  private readonly bytes: { [key: string]: Counter } = {};
+  private readonly fragments: { [direction: string]: Counter } = {};
+  private readonly requestN: { [direction: string]: Gauge } = {};
+  private readonly keepAliveRtt: Histogram;
+  private readonly keepAliveTimeouts: Counter;
+  private readonly leaseGrantedRequests: Counter;
+  private readonly leaseUsedRequests: Counter;
+  private readonly resumeAttempts: Counter;
+
+  constructor(private readonly registry: MetricsRegistry) {
+    this.activeConnections = registry.gauge(
+      "rsocket_connections_active",
+      "Number of active connections."
+    );
+    this.keepAliveRtt = registry.histogram(
+      "rsocket_keepalive_rtt_seconds",
+      "Round trip time of the keep-alive frames."
+    );
+    this.keepAliveTimeouts = registry.counter(
+      "rsocket_keepalive_timeouts_total",
+      "Number of connections closed because of missing keep-alive frames."
+    );
+    this.leaseGrantedRequests = registry.counter(
+      "rsocket_lease_granted_requests_total",
+      "Number of requests allowed by the leases received from the peer."
+    );
+    this.leaseUsedRequests = registry.counter(
+      "rsocket_lease_used_requests_total",
+      "Number of requests sent under the leases received from the peer."
+    );
+    this.resumeAttempts = registry.counter(
+      "rsocket_resume_attempts_total",
+      "Number of attempts to resume a session."
+    );
+  }
+
+  connectionOpened(): void {
+    this.activeConnections.increment();
+  }
+
+  connectionClosed(): void {
+    this.activeConnections.decrement();
+  }
+
+  streamOpened(type: FrameTypes): void {
+    this.streamsGauge(type).increment();
+  }
+
+  streamClosed(type: FrameTypes): void {
+    this.streamsGauge(type).decrement();
+  }
+
+  /**
+   * Records a frame sent or received, along with its size and whether it is a
+   * fragment of a larger payload.
+   */
+  frame(frame: Frame, direction: FrameDirection): void {
+    const key = `${direction}:${frame.type}`;
+    const labels = { direction, type: frameTypeName(frame.type) };
+
+    (
+      this.frames[key] ??
+      (this.frames[key] = this.registry.counter(
+        "rsocket_frames_total",
+        "Number of frames sent and received.",
+        labels
+      ))
+    ).increment();
+    (
+      this.bytes[key] ??
+      (this.bytes[key] = this.registry.counter(
+        "rsocket_frame_bytes_total",
+        "Size of the frames sent and received, without the length prefix.",
+        labels
+      ))
+    ).increment(sizeOfFrame(frame) ?? 0);
+
+    if (Flags.hasFollows(frame.flags)) {
+      (
+        this.fragments[direction] ??
+        (this.fragments[direction] = this.registry.counter(
+          "rsocket_fragments_total",
+          "Number of fragments sent and received, but the last one of each payload.",
+          { direction }
+        ))
+      ).increment();
+    }
+  }
+
+  /**
+   * Records the credit granted with REQUEST_N for the payloads of the given
+   * direction.
+   */
+  requestNGranted(direction: FrameDirection, n: number): void {
+    this.requestNGauge(direction).increment(n);
+  }
+
+  /**
+   * Records the credit consumed by the payloads of the given direction, or
+   * released by the termination of a stream.
+   */
+  requestNConsumed(direction: FrameDirection, n: number): void {
+    this.requestNGauge(direction).decrement(n);
+  }
+
+  keepAliveRoundTrip(rtt: number): void {
+    this.keepAliveRtt.record(rtt / 1000);
+  }
+
+  keepAliveTimeout(): void {
+    this.keepAliveTimeouts.increment();
+  }
+
+  leaseGranted(requestCount: number): void {
+    this.leaseGrantedRequests.increment(requestCount);
+  }
+
+  leaseUsed(): void {
+    this.leaseUsedRequests.increment();
+  }
+
+  resumeAttempt(): void {
+    this.resumeAttempts.increment();
+  }
+
+  private streamsGauge(type: FrameTypes): Gauge {
+    return (
+      this.activeStreams[type] ??
+      (this.activeStreams[type] = this.registry.gauge(
+        "rsocket_streams_active",
+        "Number of active streams per interaction model.",
+        { type: frameTypeName(type) }
+      ))
+    );
+  }
+
+  private requestNGauge(direction: FrameDirection): Gauge {
+    return (
+      this.requestN[direction] ??
+      (this.requestN[direction] = this.registry.gauge(
+        "rsocket_request_n_outstanding",
+        "Credit granted with REQUEST_N and not consumed yet, unbounded streams excluded.",
+        { direction }
+      ))
+    );
+  }
+}
+
+function frameTypeName(type: FrameTypes): string {
+  return FrameTypes[type] ?? `${type}`;
+}
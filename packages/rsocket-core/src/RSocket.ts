@@ -14,7 +14,8 @@
  * limitations under the License.
  */
 
-import { Closeable } from "./Common";
+import { Closeable, DisposeOptions } from "./Common";
+import { ConnectionInfo } from "./Transport";
 
 /**
  * A single unit of data exchanged between the peers of a `RSocket`.
@@ -33,8 +34,38 @@ export type SetupPayload = {
   resumeToken: Buffer | null | undefined;
   data: Buffer | null | undefined;
   metadata?: Buffer;
+  /**
+   * Context the server transport has established while accepting the
+   * connection, if any.
+   */
+  context?: unknown;
 };
 
+export type RequestOptions = {
+  /**
+   * Time in milliseconds the request has to be terminated within. Once
+   * elapsed, the request is cancelled and the subscriber is failed with a
+   * `TimeoutError`.
+   */
+  timeout?: number;
+  /**
+   * Information about the connection the request is received on. Set by the
+   * server and the connector for the requests handled by their responders.
+   */
+  connectionInfo?: ConnectionInfo;
+};
+
+/**
+ * Adds the time in milliseconds remaining until the request deadline to the
+ * given request metadata, so the responder can abandon the work it can not
+ * deliver on time. See `encodeAndAddDeadlineMetadata` in
+ * `rsocket-composite-metadata`.
+ */
+export type DeadlineEncoder = (
+  metadata: Buffer | undefined,
+  timeout: number
+) => Buffer;
+
 export interface Cancellable {
   cancel(): void;
 }
@@ -61,7 +92,11 @@ export interface OnTerminalSubscriber {
 }
 
 export interface SocketAcceptor {
-  accept(payload: SetupPayload, remotePeer: RSocket): Promise<Partial<RSocket>>;
+  accept(
+    payload: SetupPayload,
+    remotePeer: RSocket,
+    connectionInfo?: ConnectionInfo
+  ): Promise<Partial<RSocket>>;
 }
 
 /**
@@ -75,7 +110,8 @@ export interface RSocket extends Closeable {
    */
   fireAndForget(
     payload: Payload,
-    responderStream: OnTerminalSubscriber
+    responderStream: OnTerminalSubscriber,
+    options?: RequestOptions
   ): Cancellable;
 
   /**
@@ -86,7 +122,8 @@ export interface RSocket extends Closeable {
     payload: Payload,
     responderStream: OnTerminalSubscriber &
       OnNextSubscriber &
-      OnExtensionSubscriber
+      OnExtensionSubscriber,
+    options?: RequestOptions
   ): Cancellable & OnExtensionSubscriber;
 
   /**
@@ -98,7 +135,8 @@ export interface RSocket extends Closeable {
     initialRequestN: number,
     responderStream: OnTerminalSubscriber &
       OnNextSubscriber &
-      OnExtensionSubscriber
+      OnExtensionSubscriber,
+    options?: RequestOptions
   ): Requestable & Cancellable & OnExtensionSubscriber;
 
   /**
@@ -113,7 +151,8 @@ export interface RSocket extends Closeable {
       OnNextSubscriber &
       OnExtensionSubscriber &
       Requestable &
-      Cancellable
+      Cancellable,
+    options?: RequestOptions
   ): OnTerminalSubscriber &
     OnNextSubscriber &
     OnExtensionSubscriber &
@@ -125,4 +164,22 @@ export interface RSocket extends Closeable {
    * resolves when the passed `payload` is successfully handled.
    */
   metadataPush(metadata: Buffer, responderStream: OnTerminalSubscriber): void;
+
+  /**
+   * Connection level extension. The requester sends an EXT frame on the
+   * stream 0, the responder receives EXT frames sent on the stream 0 which
+   * are not handled by the connection extensions registry. Optional, so the
+   * existing implementations of `RSocket` keep compiling.
+   */
+  onExtension?(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void;
+
+  /**
+   * Gracefully closes the connection, see `Disposable`. Optional, so the
+   * existing implementations of `RSocket` keep compiling.
+   */
+  dispose?(options?: DisposeOptions): Promise<void>;
 }
@@ -15,24 +15,31 @@
  */
 
 import { Closeable, DuplexConnection, Outbound } from ".";
+import { Availability } from "./Common";
 import {
   ClientServerInputMultiplexerDemultiplexer,
   ResumableClientServerInputMultiplexerDemultiplexer,
   ResumeOkAwaitingResumableClientServerInputMultiplexerDemultiplexer,
   StreamIdGenerator,
 } from "./ClientServerMultiplexerDemultiplexer";
+import { ExtensionRegistry } from "./Extensions";
+import { intercept, InterceptorsConfig } from "./Interceptors";
 import { Flags, FrameTypes, SetupFrame } from "./Frames";
-import { Payload, RSocket } from "./RSocket";
+import { LeaseSender } from "./Lease";
+import { MetricsRegistry, RSocketMetrics } from "./Metrics";
+import { ReconnectingRSocket, ReconnectOptions } from "./ReconnectingRSocket";
+import { DeadlineEncoder, Payload, RSocket } from "./RSocket";
 import {
   DefaultConnectionFrameHandler,
   DefaultStreamRequestHandler,
   KeepAliveHandler,
   KeepAliveSender,
   LeaseHandler,
+  ResponderLeaseHandler,
   RSocketRequester,
 } from "./RSocketSupport";
 import { ClientTransport } from "./Transport";
-import { FrameStore } from "./Resume";
+import { FrameStore, FrameStoreOverflowPolicy } from "./Resume";
 
 export type ConnectorConfig = {
   setup?: {
@@ -44,14 +51,47 @@ export type ConnectorConfig = {
   };
   fragmentation?: {
     maxOutboundFragmentSize?: number;
+    maxInboundPayloadSize?: number;
   };
   transport: ClientTransport;
   responder?: Partial<RSocket>;
+  /**
+   * Handlers of the connection level extensions, sent as EXT frames on the
+   * stream 0. Extensions without a registered handler are delivered to
+   * `responder.onExtension`.
+   */
+  extensions?: ExtensionRegistry;
+  /**
+   * Whether protocol violations made by the peer terminate the connection
+   * with ERROR[CONNECTION_ERROR]. When `false`, violations are only logged
+   * which is useful for interop debugging. Defaults to `true`.
+   */
+  strict?: boolean;
+  interceptors?: InterceptorsConfig;
+  /**
+   * Registry the connection metrics are recorded with, e.g. an
+   * `InMemoryMetricsRegistry`. No metrics are recorded by default.
+   */
+  metrics?: MetricsRegistry;
+  requests?: {
+    /**
+     * Default timeout in milliseconds of the requests which do not specify
+     * their own one. No timeout by default.
+     */
+    timeout?: number;
+    /**
+     * Propagates the remaining time of the requests with a timeout to the
+     * responder in their metadata.
+     */
+    deadlineEncoder?: DeadlineEncoder;
+  };
   lease?: {
     maxPendingRequests?: number;
+    sender?: LeaseSender;
   };
   resume?: {
     cacheSize?: number;
+    cacheOverflowPolicy?: FrameStoreOverflowPolicy;
     tokenGenerator: () => Buffer;
     reconnectFunction: (attempt: number) => Promise<void>;
   };
@@ -64,8 +104,26 @@ export class RSocketConnector {
     this.config = config;
   }
 
-  async connect(): Promise<RSocket> {
+  /**
+   * Connects and establishes a new connection every time the current one is
+   * lost. The returned `RSocket` stays usable across the connections. Resolves
+   * once the first connection is established.
+   */
+  async connectWithRetry(
+    options?: ReconnectOptions
+  ): Promise<ReconnectingRSocket> {
+    const rsocket = new ReconnectingRSocket(() => this.connect(), options);
+
+    await rsocket.start();
+
+    return rsocket;
+  }
+
+  async connect(): Promise<RSocket & Availability> {
     const config = this.config;
+    const metrics = config.metrics
+      ? new RSocketMetrics(config.metrics)
+      : undefined;
     const setupFrame: SetupFrame = {
       type: FrameTypes.SETUP,
       dataMimeType: config.setup?.dataMimeType ?? "application/octet-stream",
@@ -84,13 +142,16 @@ export class RSocketConnector {
         (config.lease ? Flags.LEASE : Flags.NONE) |
         (config.resume ? Flags.RESUME_ENABLE : Flags.NONE),
     };
-    const connection = await config.transport.connect((outbound) => {
+    const transportConnection = await config.transport.connect((outbound) => {
       return config.resume
         ? new ResumableClientServerInputMultiplexerDemultiplexer(
             StreamIdGenerator.create(-1),
             outbound,
             outbound,
-            new FrameStore(), // TODO: add size control
+            new FrameStore(
+              config.resume.cacheSize,
+              config.resume.cacheOverflowPolicy
+            ),
             setupFrame.resumeToken.toString(),
             async (self, frameStore) => {
               const multiplexerDemultiplexerProvider = (
@@ -102,8 +163,8 @@ export class RSocketConnector {
                   flags: Flags.NONE,
                   clientPosition: frameStore.firstAvailableFramePosition,
                   serverPosition: frameStore.lastReceivedFramePosition,
-                  majorVersion: setupFrame.minorVersion,
-                  minorVersion: setupFrame.majorVersion,
+                  majorVersion: setupFrame.majorVersion,
+                  minorVersion: setupFrame.minorVersion,
                   resumeToken: setupFrame.resumeToken,
                 });
                 return new ResumeOkAwaitingResumableClientServerInputMultiplexerDemultiplexer(
@@ -115,6 +176,7 @@ export class RSocketConnector {
               let reconnectionAttempts = -1;
               const reconnector: () => Promise<DuplexConnection> = () => {
                 reconnectionAttempts++;
+                metrics?.resumeAttempt();
                 return config.resume
                   .reconnectFunction(reconnectionAttempts)
                   .then(() =>
@@ -125,41 +187,69 @@ export class RSocketConnector {
               };
 
               await reconnector();
-            }
+            },
+            undefined,
+            config.strict,
+            metrics
           )
         : new ClientServerInputMultiplexerDemultiplexer(
             StreamIdGenerator.create(-1),
             outbound,
-            outbound
+            outbound,
+            config.strict,
+            metrics
           );
     });
+    const connection = intercept(
+      transportConnection,
+      config.interceptors?.connection
+    );
     const keepAliveSender = new KeepAliveSender(
       connection.multiplexerDemultiplexer.connectionOutbound,
       setupFrame.keepAlive
     );
     const keepAliveHandler = new KeepAliveHandler(
       connection,
-      setupFrame.lifetime
+      setupFrame.lifetime,
+      metrics
     );
     const leaseHandler: LeaseHandler = config.lease
       ? new LeaseHandler(
           config.lease.maxPendingRequests ?? 256,
-          connection.multiplexerDemultiplexer
+          connection.multiplexerDemultiplexer,
+          metrics
         )
       : undefined;
-    const responder = config.responder ?? {};
+    const responderLeaseHandler: ResponderLeaseHandler = config.lease
+      ? new ResponderLeaseHandler(
+          config.lease.sender,
+          connection.multiplexerDemultiplexer.connectionOutbound
+        )
+      : undefined;
+    const responder = intercept(
+      config.responder ?? {},
+      config.interceptors?.responder
+    );
     const connectionFrameHandler = new DefaultConnectionFrameHandler(
       connection,
       keepAliveHandler,
       keepAliveSender,
       leaseHandler,
-      responder
+      responder,
+      config.extensions
+    );
+    const streamsHandler = new DefaultStreamRequestHandler(
+      responder,
+      config.fragmentation?.maxOutboundFragmentSize ?? 0,
+      responderLeaseHandler,
+      config.fragmentation?.maxInboundPayloadSize,
+      transportConnection.connectionInfo
     );
-    const streamsHandler = new DefaultStreamRequestHandler(responder, 0);
 
     connection.onClose((e) => {
       keepAliveSender.close();
       keepAliveHandler.close();
+      responderLeaseHandler?.close();
       connectionFrameHandler.close(e);
     });
     connection.multiplexerDemultiplexer.connectionInbound(
@@ -169,11 +259,21 @@ export class RSocketConnector {
     connection.multiplexerDemultiplexer.connectionOutbound.send(setupFrame);
     keepAliveHandler.start();
     keepAliveSender.start();
+    responderLeaseHandler?.start();
 
-    return new RSocketRequester(
+    const requester = new RSocketRequester(
       connection,
       config.fragmentation?.maxOutboundFragmentSize ?? 0,
-      leaseHandler
+      leaseHandler,
+      config.fragmentation?.maxInboundPayloadSize,
+      config.requests?.timeout,
+      config.requests?.deadlineEncoder,
+      keepAliveHandler
+    );
+
+    return intercept<RSocket & Availability>(
+      requester,
+      config.interceptors?.requester
     );
   }
 }
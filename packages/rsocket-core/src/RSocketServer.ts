@@ -19,34 +19,99 @@ import {
   ResumableClientServerInputMultiplexerDemultiplexer,
   StreamIdGenerator,
 } from "./ClientServerMultiplexerDemultiplexer";
-import { Closeable } from "./Common";
-import { ErrorCodes, RSocketError } from "./Errors";
-import { Flags, FrameTypes } from "./Frames";
-import { SocketAcceptor } from "./RSocket";
+import { MAX_KEEPALIVE, MAX_LIFETIME, MAX_MIME_LENGTH } from "./Codecs";
+import { Availability, Closeable, Disposable, DisposeOptions } from "./Common";
+import {
+  ErrorCodes,
+  InvalidSetupError,
+  RSocketError,
+  UnsupportedSetupError,
+} from "./Errors";
+import { ExtensionRegistry } from "./Extensions";
+import { Flags, FrameTypes, SetupFrame } from "./Frames";
+import {
+  intercept,
+  InterceptorsConfig,
+  SocketAcceptorInterceptor,
+} from "./Interceptors";
+import { LeaseSender } from "./Lease";
+import { MetricsRegistry, RSocketMetrics } from "./Metrics";
+import { RSocket, SocketAcceptor } from "./RSocket";
 import {
   DefaultConnectionFrameHandler,
   DefaultStreamRequestHandler,
   KeepAliveHandler,
   KeepAliveSender,
   LeaseHandler,
+  ResponderLeaseHandler,
   RSocketRequester,
 } from "./RSocketSupport";
 import { ServerTransport } from "./Transport";
-import { FrameStore } from "./Resume";
+import { FrameStore, FrameStoreOverflowPolicy } from "./Resume";
+import { InMemorySessionStore, SessionStore } from "./SessionStore";
+
+export type ProtocolVersion = {
+  majorVersion: number;
+  minorVersion: number;
+};
 
 export type ServerConfig = {
   transport: ServerTransport;
   acceptor: SocketAcceptor;
   serverSideKeepAlive?: boolean;
+  setup?: {
+    /**
+     * Protocol versions accepted from the clients. Defaults to 1.0.
+     */
+    supportedVersions?: Array<ProtocolVersion>;
+    /**
+     * Data MIME types accepted from the clients. Any MIME type is accepted if
+     * not specified.
+     */
+    dataMimeTypes?: Array<string>;
+    /**
+     * Metadata MIME types accepted from the clients. Any MIME type is accepted
+     * if not specified.
+     */
+    metadataMimeTypes?: Array<string>;
+  };
+  /**
+   * Handlers of the connection level extensions, sent as EXT frames on the
+   * stream 0. Extensions without a registered handler are delivered to
+   * `responder.onExtension`.
+   */
+  extensions?: ExtensionRegistry;
+  interceptors?: InterceptorsConfig & {
+    acceptor?: Array<SocketAcceptorInterceptor>;
+  };
+  /**
+   * Whether protocol violations made by the peer terminate the connection
+   * with ERROR[CONNECTION_ERROR]. When `false`, violations are only logged
+   * which is useful for interop debugging. Defaults to `true`.
+   */
+  strict?: boolean;
+  /**
+   * Registry the connection metrics are recorded with, e.g. an
+   * `InMemoryMetricsRegistry`. No metrics are recorded by default.
+   */
+  metrics?: MetricsRegistry;
   fragmentation?: {
     maxOutboundFragmentSize?: number;
+    maxInboundPayloadSize?: number;
   };
   lease?: {
     maxPendingRequests?: number;
+    sender?: LeaseSender;
   };
   resume?: {
+    cacheSize?: number;
+    /**
+     * @deprecated use `cacheSize` instead
+     */
     casheSize?: number;
+    cacheOverflowPolicy?: FrameStoreOverflowPolicy;
     sessionTimeout: number;
+    sessionStore?: SessionStore;
   };
 };
 
@@ -54,32 +119,74 @@ export class RSocketServer {
   private readonly transport: ServerTransport;
   private readonly acceptor: SocketAcceptor;
   private readonly serverSideKeepAlive: boolean;
+  private readonly supportedVersions: Array<ProtocolVersion>;
+  private readonly dataMimeTypes?: Array<string>;
+  private readonly metadataMimeTypes?: Array<string>;
+  private readonly extensions?: ExtensionRegistry;
+  private readonly interceptors?: InterceptorsConfig;
+  private readonly strict?: boolean;
+  private readonly metrics?: RSocketMetrics;
   private readonly lease?: {
     maxPendingRequests?: number;
+    sender?: LeaseSender;
   };
   private readonly fragmentation?: {
     maxOutboundFragmentSize?: number;
+    maxInboundPayloadSize?: number;
   };
-  private readonly sessionStore?: {
-    [sessionId: string]: ResumableClientServerInputMultiplexerDemultiplexer;
-  };
+  private readonly sessionStore?: SessionStore;
   private readonly sessionTimeout?: number;
+  private readonly cacheSize?: number;
+  private readonly cacheOverflowPolicy?: FrameStoreOverflowPolicy;
 
   constructor(config: ServerConfig) {
-    this.acceptor = config.acceptor;
+    this.acceptor = intercept(config.acceptor, config.interceptors?.acceptor);
     this.transport = config.transport;
     this.lease = config.lease;
+    this.fragmentation = config.fragmentation;
     this.serverSideKeepAlive = config.serverSideKeepAlive;
-    this.sessionStore = config.resume ? {} : undefined;
+    this.supportedVersions = config.setup?.supportedVersions ?? [
+      { majorVersion: 1, minorVersion: 0 },
+    ];
+    this.dataMimeTypes = config.setup?.dataMimeTypes;
+    this.metadataMimeTypes = config.setup?.metadataMimeTypes;
+    this.extensions = config.extensions;
+    this.interceptors = config.interceptors;
+    this.strict = config.strict;
+    this.metrics = config.metrics
+      ? new RSocketMetrics(config.metrics)
+      : undefined;
+    this.sessionStore = config.resume
+      ? config.resume.sessionStore ?? new InMemorySessionStore()
+      : undefined;
     this.sessionTimeout = config.resume?.sessionTimeout ?? undefined;
+    this.cacheSize = config.resume?.cacheSize ?? config.resume?.casheSize;
+    this.cacheOverflowPolicy = config.resume?.cacheOverflowPolicy;
   }
 
-  async bind(): Promise<Closeable> {
-    return await this.transport.bind(
-      async (frame, connection) => {
+  async bind(): Promise<Closeable & Disposable> {
+    const requesters: Array<RSocketRequester> = [];
+    const closeable = await this.transport.bind(
+      async (frame, transportConnection) => {
+        const connection = intercept(
+          transportConnection,
+          this.interceptors?.connection
+        );
         switch (frame.type) {
           case FrameTypes.SETUP: {
             try {
+              const setupError = this.validateSetup(frame);
+              if (setupError) {
+                connection.multiplexerDemultiplexer.connectionOutbound.send({
+                  type: FrameTypes.ERROR,
+                  streamId: 0,
+                  flags: Flags.NONE,
+                  code: setupError.code,
+                  message: setupError.message,
+                });
+                connection.close(setupError);
+                return;
+              }
               if (this.lease && !Flags.hasLease(frame.flags)) {
                 const error = new RSocketError(
                   ErrorCodes.REJECTED_SETUP,
@@ -114,15 +221,31 @@ export class RSocketServer {
               const leaseHandler = Flags.hasLease(frame.flags)
                 ? new LeaseHandler(
                     this.lease.maxPendingRequests ?? 256,
-                    connection.multiplexerDemultiplexer
+                    connection.multiplexerDemultiplexer,
+                    this.metrics
                   )
                 : undefined;
+              const responderLeaseHandler = Flags.hasLease(frame.flags)
+                ? new ResponderLeaseHandler(
+                    this.lease.sender,
+                    connection.multiplexerDemultiplexer.connectionOutbound
+                  )
+                : undefined;
+              const keepAliveHandler = new KeepAliveHandler(
+                connection,
+                frame.lifetime,
+                this.metrics
+              );
               const requester = new RSocketRequester(
                 connection,
                 this.fragmentation?.maxOutboundFragmentSize ?? 0,
-                leaseHandler
+                leaseHandler,
+                this.fragmentation?.maxInboundPayloadSize,
+                undefined,
+                undefined,
+                keepAliveHandler
               );
-              const responder = await this.acceptor.accept(
+              const acceptedResponder = await this.acceptor.accept(
                 {
                   data: frame.data,
                   dataMimeType: frame.dataMimeType,
@@ -132,12 +255,17 @@ export class RSocketServer {
                   keepAliveMaxLifetime: frame.lifetime,
                   keepAliveInterval: frame.keepAlive,
                   resumeToken: frame.resumeToken,
+                  context: transportConnection.context,
                 },
-                requester
+                intercept<RSocket & Availability>(
+                  requester,
+                  this.interceptors?.requester
+                ),
+                transportConnection.connectionInfo
               );
-              const keepAliveHandler = new KeepAliveHandler(
-                connection,
-                frame.lifetime
+              const responder = intercept(
+                acceptedResponder,
+                this.interceptors?.responder
               );
               const keepAliveSender = this.serverSideKeepAlive
                 ? new KeepAliveSender(
@@ -150,16 +278,23 @@ export class RSocketServer {
                 keepAliveHandler,
                 keepAliveSender,
                 leaseHandler,
-                responder
+                responder,
+                this.extensions
               );
               const streamsHandler = new DefaultStreamRequestHandler(
                 responder,
-                0
+                this.fragmentation?.maxOutboundFragmentSize ?? 0,
+                responderLeaseHandler,
+                this.fragmentation?.maxInboundPayloadSize,
+                transportConnection.connectionInfo
               );
 
+              requesters.push(requester);
               connection.onClose((e) => {
+                requesters.splice(requesters.indexOf(requester), 1);
                 keepAliveSender?.close();
                 keepAliveHandler.close();
+                responderLeaseHandler?.close();
                 connectionFrameHandler.close(e);
               });
               connection.multiplexerDemultiplexer.connectionInbound(
@@ -171,6 +306,7 @@ export class RSocketServer {
 
               keepAliveHandler.start();
               keepAliveSender?.start();
+              responderLeaseHandler?.start();
             } catch (e) {
               connection.multiplexerDemultiplexer.connectionOutbound.send({
                 type: FrameTypes.ERROR,
@@ -206,9 +342,10 @@ export class RSocketServer {
       },
       (frame, outbound) => {
         if (frame.type === FrameTypes.RESUME) {
+          this.metrics?.resumeAttempt();
           if (this.sessionStore) {
-            const multiplexerDemultiplexer =
-              this.sessionStore[frame.resumeToken.toString()];
+            const token = frame.resumeToken.toString();
+            const multiplexerDemultiplexer = this.sessionStore.resume(token);
 
             if (!multiplexerDemultiplexer) {
               outbound.send({
@@ -226,6 +363,12 @@ export class RSocketServer {
 
             multiplexerDemultiplexer.resume(frame, outbound, outbound);
 
+            // the session is closed if the positions of the RESUME frame
+            // are rejected
+            if (!multiplexerDemultiplexer.done) {
+              this.sessionStore.resumed(token);
+            }
+
             return multiplexerDemultiplexer;
           }
 
@@ -262,14 +405,28 @@ export class RSocketServer {
                 StreamIdGenerator.create(0),
                 outbound,
                 outbound,
-                new FrameStore(), // TODO: add size parameter
+                new FrameStore(this.cacheSize, this.cacheOverflowPolicy),
                 frame.resumeToken.toString(),
                 this.sessionStore,
-                this.sessionTimeout
+                this.sessionTimeout,
+                this.strict,
+                this.metrics
               );
 
-            this.sessionStore[frame.resumeToken.toString()] =
-              multiplexerDumiltiplexer;
+            try {
+              this.sessionStore.add(multiplexerDumiltiplexer);
+            } catch (error) {
+              multiplexerDumiltiplexer.close(error);
+              outbound.send({
+                type: FrameTypes.ERROR,
+                streamId: 0,
+                flags: Flags.NONE,
+                code: (error as RSocketError).code,
+                message: error.message,
+              });
+              outbound.close(error);
+              return;
+            }
 
             return multiplexerDumiltiplexer;
           }
@@ -278,9 +435,105 @@ export class RSocketServer {
         return new ClientServerInputMultiplexerDemultiplexer(
           StreamIdGenerator.create(0),
           outbound,
-          outbound
+          outbound,
+          this.strict,
+          this.metrics
         );
       }
     );
+
+    return new ServerCloseable(closeable, requesters);
+  }
+
+  private validateSetup(frame: SetupFrame): RSocketError | undefined {
+    if (frame.keepAlive <= 0 || frame.keepAlive > MAX_KEEPALIVE) {
+      return new InvalidSetupError(
+        `Invalid keepalive interval [${frame.keepAlive}]`
+      );
+    }
+
+    if (frame.lifetime <= 0 || frame.lifetime > MAX_LIFETIME) {
+      return new InvalidSetupError(
+        `Invalid keepalive max lifetime [${frame.lifetime}]`
+      );
+    }
+
+    if (!isValidMimeType(frame.dataMimeType)) {
+      return new InvalidSetupError(
+        `Invalid data MIME type [${frame.dataMimeType}]`
+      );
+    }
+
+    if (!isValidMimeType(frame.metadataMimeType)) {
+      return new InvalidSetupError(
+        `Invalid metadata MIME type [${frame.metadataMimeType}]`
+      );
+    }
+
+    if (
+      !this.supportedVersions.some(
+        (version) =>
+          version.majorVersion === frame.majorVersion &&
+          version.minorVersion === frame.minorVersion
+      )
+    ) {
+      return new UnsupportedSetupError(
+        `Unsupported protocol version [${frame.majorVersion}.${frame.minorVersion}]`
+      );
+    }
+
+    if (
+      this.dataMimeTypes &&
+      this.dataMimeTypes.indexOf(frame.dataMimeType) === -1
+    ) {
+      return new UnsupportedSetupError(
+        `Unsupported data MIME type [${frame.dataMimeType}]`
+      );
+    }
+
+    if (
+      this.metadataMimeTypes &&
+      this.metadataMimeTypes.indexOf(frame.metadataMimeType) === -1
+    ) {
+      return new UnsupportedSetupError(
+        `Unsupported metadata MIME type [${frame.metadataMimeType}]`
+      );
+    }
+
+    return undefined;
+  }
+}
+
+function isValidMimeType(mimeType: string): boolean {
+  // MIME types are US-ASCII strings prefixed with their length as uint8
+  return (
+    !!mimeType &&
+    mimeType.length <= MAX_MIME_LENGTH &&
+    /^[\x00-\x7F]*$/.test(mimeType)
+  );
+}
+
+class ServerCloseable implements Closeable, Disposable {
+  constructor(
+    private readonly transportCloseable: Closeable,
+    private readonly requesters: Array<RSocketRequester>
+  ) {}
+
+  close(error?: Error): void {
+    this.transportCloseable.close(error);
+  }
+
+  onClose(callback: (error?: Error) => void): void {
+    this.transportCloseable.onClose(callback);
+  }
+
+  async dispose(options?: DisposeOptions): Promise<void> {
+    // stops accepting new connections, while the established ones are
+    // closed gracefully
+    this.transportCloseable.close();
+
+    await Promise.all(
+      this.requesters.slice().map((requester) => requester.dispose(options))
+    );
   }
 }
@@ -14,23 +14,49 @@
  * limitations under the License.
  */
 
-import { ErrorCodes, RSocketError } from "./Errors";
+import { Availability, DisposeOptions } from "./Common";
 import {
+  ConnectionCloseError,
+  createConnectionError,
+  ErrorCodes,
+  RSocketError,
+  TimeoutError,
+} from "./Errors";
+import { readUInt64BE, writeUInt64BE } from "./Codecs";
+import { ExtensionRegistry } from "./Extensions";
+import {
+  ForwardingRequest,
+  ForwardingSubscriber,
+  RequestHandler,
+  ResponseReceiver,
+} from "./Forwarding";
+import {
+  CancelFrame,
   ErrorFrame,
+  ExtFrame,
   Flags,
   FrameTypes,
   KeepAliveFrame,
   LeaseFrame,
   MetadataPushFrame,
+  PayloadFrame,
   RequestChannelFrame,
   RequestFnfFrame,
+  RequestNFrame,
   RequestResponseFrame,
   RequestStreamFrame,
   ResumeFrame,
   ResumeOkFrame,
   SetupFrame,
 } from "./Frames";
-import { LeaseManager } from "./Lease";
+import {
+  Lease,
+  LeaseManager,
+  LeaseSender,
+  LeaseSink,
+  LeaseStats,
+} from "./Lease";
+import { RSocketMetrics } from "./Metrics";
 import {
   RequestChannelRequesterStream,
   RequestChannelResponderStream,
@@ -49,15 +75,18 @@ import {
 } from "./RequestStreamStream";
 import {
   Cancellable,
+  DeadlineEncoder,
   OnExtensionSubscriber,
   OnNextSubscriber,
   OnTerminalSubscriber,
   Payload,
+  RequestOptions,
   Requestable,
   RSocket,
 } from "./RSocket";
 import {
   ConnectionFrameHandler,
+  ConnectionInfo,
   DuplexConnection,
   FrameHandler,
   Multiplexer,
@@ -68,53 +97,88 @@ import {
   StreamRequestHandler,
 } from "./Transport";
 
-export class RSocketRequester implements RSocket {
+export class RSocketRequester implements RSocket, Availability {
+  private disposing = false;
+
   constructor(
     private readonly connection: DuplexConnection,
     private readonly fragmentSize: number,
-    private readonly leaseManager: LeaseManager | undefined | null
+    private readonly leaseManager: LeaseManager | undefined | null,
+    private readonly maxInboundPayloadSize?: number,
+    private readonly requestTimeout?: number,
+    private readonly deadlineEncoder?: DeadlineEncoder,
+    private readonly keepAliveHandler?: Availability
   ) {}
 
+  /**
+   * Combines the availability of the connection with the ones of the lease
+   * and the keep-alive. `0` once the requester is being disposed.
+   */
+  get availability(): number {
+    if (this.disposing) {
+      return 0;
+    }
+
+    return (
+      this.connection.availability *
+      (this.leaseManager?.availability ?? 1) *
+      (this.keepAliveHandler?.availability ?? 1)
+    );
+  }
+
+  get lastRtt(): number | undefined {
+    return this.keepAliveHandler?.lastRtt;
+  }
+
+  get smoothedRtt(): number | undefined {
+    return this.keepAliveHandler?.smoothedRtt;
+  }
+
   fireAndForget(
     payload: Payload,
-    responderStream: OnTerminalSubscriber
+    responderStream: OnTerminalSubscriber,
+    options?: RequestOptions
   ): Cancellable {
-    const handler = new RequestFnFRequesterStream(
-      payload,
+    const timeout = options?.timeout ?? this.requestTimeout;
+    const timeoutSubscriber = this.createTimeoutSubscriber(
       responderStream,
+      timeout
+    );
+    const handler = new RequestFnFRequesterStream(
+      this.withDeadline(payload, timeout),
+      timeoutSubscriber ?? responderStream,
       this.fragmentSize,
       this.leaseManager
     );
 
-    if (this.leaseManager) {
-      this.leaseManager.requestLease(handler);
-    } else {
-      this.connection.multiplexerDemultiplexer.createRequestStream(handler);
-    }
+    this.request(handler);
 
-    return handler;
+    return timeoutSubscriber ? timeoutSubscriber.start(handler) : handler;
   }
 
   requestResponse(
     payload: Payload,
     responderStream: OnTerminalSubscriber &
       OnNextSubscriber &
-      OnExtensionSubscriber
+      OnExtensionSubscriber,
+    options?: RequestOptions
   ): Cancellable & OnExtensionSubscriber {
-    const handler = new RequestResponseRequesterStream(
-      payload,
+    const timeout = options?.timeout ?? this.requestTimeout;
+    const timeoutSubscriber = this.createTimeoutSubscriber(
       responderStream,
+      timeout
+    );
+    const handler = new RequestResponseRequesterStream(
+      this.withDeadline(payload, timeout),
+      timeoutSubscriber ?? responderStream,
       this.fragmentSize,
-      this.leaseManager
+      this.leaseManager,
+      this.maxInboundPayloadSize
     );
 
-    if (this.leaseManager) {
-      this.leaseManager.requestLease(handler);
-    } else {
-      this.connection.multiplexerDemultiplexer.createRequestStream(handler);
-    }
+    this.request(handler);
 
-    return handler;
+    return timeoutSubscriber ? timeoutSubscriber.start(handler) : handler;
   }
 
   requestStream(
@@ -122,23 +186,26 @@ export class RSocketRequester implements RSocket {
     initialRequestN: number,
     responderStream: OnTerminalSubscriber &
       OnNextSubscriber &
-      OnExtensionSubscriber
+      OnExtensionSubscriber,
+    options?: RequestOptions
   ): Requestable & OnExtensionSubscriber & Cancellable {
-    const handler = new RequestStreamRequesterStream(
-      payload,
+    const timeout = options?.timeout ?? this.requestTimeout;
+    const timeoutSubscriber = this.createTimeoutSubscriber(
       responderStream,
+      timeout
+    );
+    const handler = new RequestStreamRequesterStream(
+      this.withDeadline(payload, timeout),
+      timeoutSubscriber ?? responderStream,
       this.fragmentSize,
       initialRequestN,
-      this.leaseManager
+      this.leaseManager,
+      this.maxInboundPayloadSize
     );
 
-    if (this.leaseManager) {
-      this.leaseManager.requestLease(handler);
-    } else {
-      this.connection.multiplexerDemultiplexer.createRequestStream(handler);
-    }
+    this.request(handler);
 
-    return handler;
+    return timeoutSubscriber ? timeoutSubscriber.start(handler) : handler;
   }
 
   requestChannel(
@@ -149,32 +216,125 @@ export class RSocketRequester implements RSocket {
       OnNextSubscriber &
       OnExtensionSubscriber &
       Requestable &
-      Cancellable
+      Cancellable,
+    options?: RequestOptions
   ): OnTerminalSubscriber &
     OnNextSubscriber &
     OnExtensionSubscriber &
     Requestable &
     Cancellable {
+    const timeout = options?.timeout ?? this.requestTimeout;
+    const timeoutSubscriber = this.createTimeoutSubscriber(
+      responderStream,
+      timeout
+    );
     const handler = new RequestChannelRequesterStream(
-      payload,
+      this.withDeadline(payload, timeout),
       isCompleted,
-      responderStream,
+      timeoutSubscriber ?? responderStream,
       this.fragmentSize,
       initialRequestN,
-      this.leaseManager
+      this.leaseManager,
+      this.maxInboundPayloadSize
     );
 
-    if (this.leaseManager) {
+    this.request(handler);
+
+    return timeoutSubscriber ? timeoutSubscriber.start(handler) : handler;
+  }
+
+  metadataPush(metadata: Buffer, responderStream: OnTerminalSubscriber): void {
+    // METADATA_PUSH is a connection level frame, therefore it is not subject
+    // to lease and is sent straight away
+    try {
+      this.connection.multiplexerDemultiplexer.connectionOutbound.send({
+        type: FrameTypes.METADATA_PUSH,
+        streamId: 0,
+        flags: Flags.METADATA,
+        metadata,
+      });
+    } catch (error) {
+      responderStream.onError(error);
+      return;
+    }
+
+    responderStream.onComplete();
+  }
+
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    this.connection.multiplexerDemultiplexer.connectionOutbound.send({
+      type: FrameTypes.EXT,
+      streamId: 0,
+      flags: canBeIgnored ? Flags.IGNORE : Flags.NONE,
+      extendedType,
+      extendedContent: content,
+    });
+  }
+
+  async dispose(options?: DisposeOptions): Promise<void> {
+    this.disposing = true;
+
+    let closed = false;
+    this.connection.onClose(() => (closed = true));
+
+    const multiplexerDemultiplexer = this.connection.multiplexerDemultiplexer;
+    const drained = multiplexerDemultiplexer.drain(options?.drainTimeout);
+
+    // requests waiting for a lease are never going to be sent
+    this.leaseManager?.rejectPendingRequests(
+      new ConnectionCloseError("Connection is being closed")
+    );
+
+    await drained;
+
+    if (closed) {
+      return;
+    }
+
+    multiplexerDemultiplexer.connectionOutbound.send({
+      type: FrameTypes.ERROR,
+      streamId: 0,
+      flags: Flags.NONE,
+      code: ErrorCodes.CONNECTION_CLOSE,
+      message: "Connection is closed",
+    });
+    this.connection.close();
+  }
+
+  private request(handler: StreamLifecycleHandler & StreamFrameHandler): void {
+    // once disposing, the multiplexer rejects the request straight away
+    // instead of leaving it waiting for a lease
+    if (this.leaseManager && !this.disposing) {
       this.leaseManager.requestLease(handler);
     } else {
       this.connection.multiplexerDemultiplexer.createRequestStream(handler);
     }
+  }
+
+  private createTimeoutSubscriber(
+    responderStream: ResponseReceiver,
+    timeout: number | undefined
+  ): RequestTimeoutSubscriber | undefined {
+    if (timeout === undefined) {
+      return undefined;
+    }
 
-    return handler;
+    return new RequestTimeoutSubscriber(responderStream, timeout);
   }
 
-  metadataPush(metadata: Buffer, responderStream: OnTerminalSubscriber): void {
-    throw new Error("Method not implemented.");
+  private withDeadline(payload: Payload, timeout: number | undefined): Payload {
+    if (timeout === undefined || !this.deadlineEncoder) {
+      return payload;
+    }
+
+    return {
+      data: payload.data,
+      metadata: this.deadlineEncoder(payload.metadata, timeout),
+    };
   }
 
   close(error?: Error): void {
@@ -186,6 +346,101 @@ export class RSocketRequester implements RSocket {
   }
 }
 
+/**
+ * Cancels the request and fails the subscriber with a `TimeoutError` unless
+ * the request is terminated within the given timeout. The outbound of a
+ * channel may outlive the timed inbound, so its signals are always passed on.
+ */
+class RequestTimeoutSubscriber extends ForwardingSubscriber {
+  private done = false;
+  private timeoutId: any;
+
+  constructor(receiver: ResponseReceiver, private readonly timeout: number) {
+    super(receiver);
+  }
+
+  /**
+   * Starts the timer and returns the given handler wrapped so the timer is
+   * stopped when the request is cancelled by the requester.
+   */
+  start(handler: RequestHandler): RequestTimeoutStream {
+    this.timeoutId = setTimeout(() => {
+      if (this.done) {
+        return;
+      }
+
+      this.done = true;
+      handler.cancel();
+      this.receiver.onError(
+        new TimeoutError(`Request timed out after ${this.timeout} ms`)
+      );
+    }, this.timeout);
+
+    return new RequestTimeoutStream(handler, this);
+  }
+
+  stop(): void {
+    this.done = true;
+    clearTimeout(this.timeoutId);
+  }
+
+  onNext(payload: Payload, isComplete: boolean): void {
+    if (this.done) {
+      return;
+    }
+
+    if (isComplete) {
+      this.stop();
+    }
+
+    super.onNext(payload, isComplete);
+  }
+
+  onError(error: Error): void {
+    if (this.done) {
+      return;
+    }
+
+    this.stop();
+    super.onError(error);
+  }
+
+  onComplete(): void {
+    if (this.done) {
+      return;
+    }
+
+    this.stop();
+    super.onComplete();
+  }
+
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    if (this.done) {
+      return;
+    }
+
+    super.onExtension(extendedType, content, canBeIgnored);
+  }
+}
+
+class RequestTimeoutStream extends ForwardingRequest {
+  constructor(
+    handler: RequestHandler,
+    private readonly timeoutSubscriber: RequestTimeoutSubscriber
+  ) {
+    super(handler);
+  }
+
+  cancel(): void {
+    this.timeoutSubscriber.stop();
+    super.cancel();
+  }
+}
+
 export class LeaseHandler implements LeaseManager {
   private readonly pendingRequests: Array<
     StreamFrameHandler & StreamLifecycleHandler
@@ -193,28 +448,42 @@ export class LeaseHandler implements LeaseManager {
 
   private expirationTime: number = 0;
   private availableLease: number = 0;
+  private grantedLease: number = 0;
 
   constructor(
     private readonly maxPendingRequests: number,
-    private readonly multiplexer: Multiplexer
+    private readonly multiplexer: Multiplexer,
+    private readonly metrics?: RSocketMetrics
   ) {}
 
   handle(frame: LeaseFrame): void {
     this.expirationTime = frame.ttl + Date.now();
     this.availableLease = frame.requestCount;
+    this.grantedLease = frame.requestCount;
+    this.metrics?.leaseGranted(frame.requestCount);
 
     while (this.availableLease > 0 && this.pendingRequests.length > 0) {
       const handler = this.pendingRequests.shift();
 
       this.availableLease--;
+      this.metrics?.leaseUsed();
       this.multiplexer.createRequestStream(handler);
     }
   }
 
+  get availability(): number {
+    if (this.availableLease <= 0 || Date.now() >= this.expirationTime) {
+      return 0;
+    }
+
+    return this.availableLease / this.grantedLease;
+  }
+
   requestLease(handler: StreamFrameHandler & StreamLifecycleHandler): void {
     const availableLease = this.availableLease;
     if (availableLease > 0 && Date.now() < this.expirationTime) {
       this.availableLease = availableLease - 1;
+      this.metrics?.leaseUsed();
       this.multiplexer.createRequestStream(handler);
       return;
     }
@@ -235,13 +504,163 @@ export class LeaseHandler implements LeaseManager {
       this.pendingRequests.splice(index, 1);
     }
   }
+
+  rejectPendingRequests(error: Error): void {
+    const pendingRequests = this.pendingRequests.splice(0);
+    for (const handler of pendingRequests) {
+      handler.handleReject(error);
+    }
+  }
+}
+
+export class ResponderLeaseHandler implements LeaseStats, LeaseSink {
+  private expirationTime: number = 0;
+  private _availableLease: number = 0;
+  private _activeStreams: number = 0;
+  private readonly _latencies: Array<number> = [];
+  private subscription: Cancellable | undefined;
+  private closed: boolean = false;
+
+  constructor(
+    private readonly sender: LeaseSender | undefined,
+    private readonly outbound: Outbound,
+    private readonly maxTrackedLatencies: number = 32
+  ) {}
+
+  get activeStreams(): number {
+    return this._activeStreams;
+  }
+
+  get latencies(): ReadonlyArray<number> {
+    return this._latencies;
+  }
+
+  get availableLease(): number {
+    return Date.now() < this.expirationTime ? this._availableLease : 0;
+  }
+
+  start(): void {
+    if (this.closed || this.subscription || !this.sender) {
+      return;
+    }
+
+    this.subscription = this.sender.start(this, this);
+  }
+
+  send(lease: Lease): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.expirationTime = Date.now() + lease.ttl;
+    this._availableLease = lease.requestCount;
+
+    this.outbound.send({
+      type: FrameTypes.LEASE,
+      streamId: 0,
+      flags: lease.metadata ? Flags.METADATA : Flags.NONE,
+      ttl: lease.ttl,
+      requestCount: lease.requestCount,
+      metadata: lease.metadata,
+    });
+  }
+
+  /**
+   * Consumes a single request from the granted lease. Returns `false` if there
+   * is no valid lease available.
+   */
+  useLease(): boolean {
+    if (this.availableLease <= 0) {
+      return false;
+    }
+
+    this._availableLease--;
+    return true;
+  }
+
+  /**
+   * Wraps the given stream to track the number of active streams and the
+   * latency of every request.
+   */
+  track(stream: Stream): Stream {
+    return new LeaseTrackingStream(stream, this);
+  }
+
+  handleStreamStart(): void {
+    this._activeStreams++;
+  }
+
+  handleStreamEnd(latency: number): void {
+    this._activeStreams--;
+    this._latencies.push(latency);
+    if (this._latencies.length > this.maxTrackedLatencies) {
+      this._latencies.shift();
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.subscription?.cancel();
+  }
+}
+
+class LeaseTrackingStream implements Stream {
+  private startTime: number | undefined;
+  private done: boolean = false;
+
+  constructor(
+    private readonly delegate: Stream,
+    private readonly leaseHandler: ResponderLeaseHandler
+  ) {}
+
+  connect(handler: StreamFrameHandler): void {
+    if (this.startTime === undefined) {
+      this.startTime = Date.now();
+      this.leaseHandler.handleStreamStart();
+    }
+    this.delegate.connect(handler);
+  }
+
+  disconnect(handler: StreamFrameHandler): void {
+    this.delegate.disconnect(handler);
+    if (this.startTime !== undefined && !this.done) {
+      this.done = true;
+      this.leaseHandler.handleStreamEnd(Date.now() - this.startTime);
+    }
+  }
+
+  send(
+    frame:
+      | CancelFrame
+      | ErrorFrame
+      | PayloadFrame
+      | RequestChannelFrame
+      | RequestFnfFrame
+      | RequestNFrame
+      | RequestResponseFrame
+      | RequestStreamFrame
+      | ExtFrame
+  ): void {
+    this.delegate.send(frame);
+  }
 }
 
 export class DefaultStreamRequestHandler implements StreamRequestHandler {
   constructor(
     private rsocket: Partial<RSocket>,
-    private fragmentSize: number
-  ) {}
+    private fragmentSize: number,
+    private leaseHandler?: ResponderLeaseHandler,
+    private maxInboundPayloadSize?: number,
+    connectionInfo?: ConnectionInfo
+  ) {
+    if (connectionInfo) {
+      this.rsocket = withRequestOptions(rsocket, { connectionInfo });
+    }
+  }
 
   handle(
     frame:
@@ -251,6 +670,22 @@ export class DefaultStreamRequestHandler implements StreamRequestHandler {
       | RequestChannelFrame,
     stream: Stream
   ): void {
+    if (this.leaseHandler) {
+      if (!this.leaseHandler.useLease()) {
+        // there is no way to signal rejection of fire and forget request
+        if (frame.type !== FrameTypes.REQUEST_FNF) {
+          this.rejectRequest(
+            frame.streamId,
+            stream,
+            "Lease was not received yet or has expired"
+          );
+        }
+        return;
+      }
+
+      stream = this.leaseHandler.track(stream);
+    }
+
     switch (frame.type) {
       case FrameTypes.REQUEST_FNF:
         if (this.rsocket.fireAndForget) {
@@ -258,7 +693,8 @@ export class DefaultStreamRequestHandler implements StreamRequestHandler {
             frame.streamId,
             stream,
             this.rsocket.fireAndForget.bind(this.rsocket),
-            frame
+            frame,
+            this.maxInboundPayloadSize
           );
         }
         return;
@@ -269,7 +705,8 @@ export class DefaultStreamRequestHandler implements StreamRequestHandler {
             stream,
             this.fragmentSize,
             this.rsocket.requestResponse.bind(this.rsocket),
-            frame
+            frame,
+            this.maxInboundPayloadSize
           );
           return;
         }
@@ -285,7 +722,8 @@ export class DefaultStreamRequestHandler implements StreamRequestHandler {
             stream,
             this.fragmentSize,
             this.rsocket.requestStream.bind(this.rsocket),
-            frame
+            frame,
+            this.maxInboundPayloadSize
           );
           return;
         }
@@ -301,7 +739,8 @@ export class DefaultStreamRequestHandler implements StreamRequestHandler {
             stream,
             this.fragmentSize,
             this.rsocket.requestChannel.bind(this.rsocket),
-            frame
+            frame,
+            this.maxInboundPayloadSize
           );
           return;
         }
@@ -312,26 +751,74 @@ export class DefaultStreamRequestHandler implements StreamRequestHandler {
     }
   }
 
-  rejectRequest(streamId: number, stream: Stream) {
+  rejectRequest(
+    streamId: number,
+    stream: Stream,
+    message: string = "No available handler found"
+  ) {
     stream.send({
       type: FrameTypes.ERROR,
       streamId,
       flags: Flags.NONE,
       code: ErrorCodes.REJECTED,
-      message: "No available handler found",
+      message,
     });
   }
 
   close() {}
 }
 
+/**
+ * Passes the given options to the requests handled by the responder.
+ */
+function withRequestOptions(
+  rsocket: Partial<RSocket>,
+  options: RequestOptions
+): Partial<RSocket> {
+  const decorated: Partial<RSocket> = {};
+
+  if (rsocket.fireAndForget) {
+    decorated.fireAndForget = (payload, responderStream) =>
+      rsocket.fireAndForget(payload, responderStream, options);
+  }
+
+  if (rsocket.requestResponse) {
+    decorated.requestResponse = (payload, responderStream) =>
+      rsocket.requestResponse(payload, responderStream, options);
+  }
+
+  if (rsocket.requestStream) {
+    decorated.requestStream = (payload, initialRequestN, responderStream) =>
+      rsocket.requestStream(payload, initialRequestN, responderStream, options);
+  }
+
+  if (rsocket.requestChannel) {
+    decorated.requestChannel = (
+      payload,
+      initialRequestN,
+      isCompleted,
+      responderStream
+    ) =>
+      rsocket.requestChannel(
+        payload,
+        initialRequestN,
+        isCompleted,
+        responderStream,
+        options
+      );
+  }
+
+  return decorated;
+}
+
 export class DefaultConnectionFrameHandler implements ConnectionFrameHandler {
   constructor(
     private readonly connection: DuplexConnection,
     private readonly keepAliveHandler: KeepAliveHandler,
     private readonly keepAliveSender: KeepAliveSender | undefined,
     private readonly leaseHandler: LeaseHandler | undefined,
-    private readonly rsocket: Partial<RSocket>
+    private readonly rsocket: Partial<RSocket>,
+    private readonly extensions?: ExtensionRegistry
   ) {}
 
   handle(
@@ -343,6 +830,7 @@ export class DefaultConnectionFrameHandler implements ConnectionFrameHandler {
       | KeepAliveFrame
       | ErrorFrame
       | MetadataPushFrame
+      | ExtFrame
   ): void {
     switch (frame.type) {
       case FrameTypes.KEEPALIVE:
@@ -357,14 +845,14 @@ export class DefaultConnectionFrameHandler implements ConnectionFrameHandler {
         // TODO throw exception and close connection
         return;
       case FrameTypes.ERROR:
-        // TODO: add code validation
-        this.connection.close(new RSocketError(frame.code, frame.message));
+        // the code has already been validated by the demultiplexer
+        this.connection.close(createConnectionError(frame.code, frame.message));
         return;
       case FrameTypes.METADATA_PUSH:
-        if (this.rsocket.metadataPush) {
-          // this.rsocket.metadataPush()
-        }
-
+        this.handleMetadataPush(frame);
+        return;
+      case FrameTypes.EXT:
+        this.handleExtension(frame);
         return;
       default:
         this.connection.multiplexerDemultiplexer.connectionOutbound.send({
@@ -378,6 +866,67 @@ export class DefaultConnectionFrameHandler implements ConnectionFrameHandler {
     }
   }
 
+  private handleMetadataPush(frame: MetadataPushFrame): void {
+    if (!this.rsocket.metadataPush) {
+      return;
+    }
+
+    // there is no stream to report a failure of the responder on
+    const subscriber: OnTerminalSubscriber = {
+      onError: (error) => this.closeWithError(error),
+      onComplete() {},
+    };
+
+    try {
+      this.rsocket.metadataPush(frame.metadata, subscriber);
+    } catch (error) {
+      this.closeWithError(error);
+    }
+  }
+
+  private closeWithError(cause: Error): void {
+    const error = new RSocketError(ErrorCodes.CONNECTION_ERROR, cause.message);
+    this.connection.multiplexerDemultiplexer.connectionOutbound.send({
+      type: FrameTypes.ERROR,
+      streamId: 0,
+      flags: Flags.NONE,
+      code: error.code,
+      message: error.message,
+    });
+    this.connection.close(error);
+  }
+
+  private handleExtension(frame: ExtFrame): void {
+    const canBeIgnored = Flags.hasIgnore(frame.flags);
+
+    const handler: Partial<OnExtensionSubscriber> = this.extensions?.has(
+      frame.extendedType
+    )
+      ? this.extensions
+      : this.rsocket;
+
+    if (handler.onExtension) {
+      try {
+        handler.onExtension(
+          frame.extendedType,
+          frame.extendedContent,
+          canBeIgnored
+        );
+      } catch (error) {
+        this.closeWithError(error);
+      }
+      return;
+    }
+
+    if (canBeIgnored) {
+      return;
+    }
+
+    this.closeWithError(
+      new Error(`Unsupported extension [${frame.extendedType}]`)
+    );
+  }
+
   pause() {
     this.keepAliveHandler.pause();
     this.keepAliveSender?.pause();
@@ -400,21 +949,32 @@ enum KeepAliveHandlerStates {
   Closed,
 }
 
-export class KeepAliveHandler implements FrameHandler {
+// keep-alive data is the time in milliseconds it has been sent at
+const KEEPALIVE_TIMESTAMP_SIZE = 8;
+
+// weight of the most recent sample in the smoothed round trip time, same as
+// the one of TCP (RFC 6298)
+const RTT_DECAY = 0.125;
+
+export class KeepAliveHandler implements FrameHandler, Availability {
   private readonly outbound: Outbound;
   private keepAliveLastReceivedMillis: number;
   private activeTimeout: any;
   private state: number = KeepAliveHandlerStates.Paused;
+  private _lastRtt?: number;
+  private _smoothedRtt?: number;
 
   constructor(
     private readonly connection: DuplexConnection,
-    private readonly keepAliveTimeoutDuration: number
+    private readonly keepAliveTimeoutDuration: number,
+    private readonly metrics?: RSocketMetrics
   ) {
     this.outbound = connection.multiplexerDemultiplexer.connectionOutbound;
   }
 
   handle(frame: KeepAliveFrame): void {
-    this.keepAliveLastReceivedMillis = Date.now();
+    const now = Date.now();
+    this.keepAliveLastReceivedMillis = now;
     if (Flags.hasRespond(frame.flags)) {
       this.outbound.send({
         type: FrameTypes.KEEPALIVE,
@@ -423,7 +983,34 @@ export class KeepAliveHandler implements FrameHandler {
         flags: frame.flags ^ Flags.RESPOND,
         lastReceivedPosition: 0,
       });
+    } else if (frame.data?.length === KEEPALIVE_TIMESTAMP_SIZE) {
+      // acknowledgement echoing the time the keep-alive has been sent at
+      const rtt = now - readUInt64BE(frame.data, 0);
+      if (rtt >= 0) {
+        this.recordRtt(rtt);
+      }
+    }
+  }
+
+  get lastRtt(): number | undefined {
+    return this._lastRtt;
+  }
+
+  get smoothedRtt(): number | undefined {
+    return this._smoothedRtt;
+  }
+
+  /**
+   * Fraction of the max lifetime which remains until the connection is closed
+   * unless a keep-alive is received, `0` while paused.
+   */
+  get availability(): number {
+    if (this.state !== KeepAliveHandlerStates.Running) {
+      return 0;
     }
+
+    const noKeepAliveDuration = Date.now() - this.keepAliveLastReceivedMillis;
+    return Math.max(0, 1 - noKeepAliveDuration / this.keepAliveTimeoutDuration);
   }
 
   start() {
@@ -453,10 +1040,20 @@ export class KeepAliveHandler implements FrameHandler {
     clearTimeout(this.activeTimeout);
   }
 
+  private recordRtt(rtt: number) {
+    this._lastRtt = rtt;
+    this._smoothedRtt =
+      this._smoothedRtt === undefined
+        ? rtt
+        : RTT_DECAY * rtt + (1 - RTT_DECAY) * this._smoothedRtt;
+    this.metrics?.keepAliveRoundTrip(rtt);
+  }
+
   private timeoutCheck() {
     const now = Date.now();
     const noKeepAliveDuration = now - this.keepAliveLastReceivedMillis;
     if (noKeepAliveDuration >= this.keepAliveTimeoutDuration) {
+      this.metrics?.keepAliveTimeout();
       this.connection.close(
         new Error(
           `No keep-alive acks for ${this.keepAliveTimeoutDuration} millis`
@@ -487,10 +1084,14 @@ export class KeepAliveSender {
   ) {}
 
   private sendKeepAlive() {
+    // the peer echoes the data back, so the round trip time can be measured
+    const data = Buffer.allocUnsafe(KEEPALIVE_TIMESTAMP_SIZE);
+    writeUInt64BE(data, Date.now(), 0);
+
     this.outbound.send({
       type: FrameTypes.KEEPALIVE,
       streamId: 0,
-      data: undefined,
+      data,
       flags: Flags.RESPOND,
       lastReceivedPosition: 0,
     });
@@ -22,11 +22,24 @@ export interface FragmentsHolder {
   metadata: Buffer | undefined | null;
 }
 
+/**
+ * Adds the given fragment to the holder. Returns `false` if the size of the
+ * payload accumulated so far would exceed `maxInboundPayloadSize`, in which
+ * case the fragment is not added.
+ */
 export function add(
   holder: FragmentsHolder,
   dataFragment: Buffer,
-  metadataFragment?: Buffer | undefined | null
+  metadataFragment?: Buffer | undefined | null,
+  maxInboundPayloadSize: number = Number.MAX_SAFE_INTEGER
 ): boolean {
+  if (
+    accumulatedSize(holder, dataFragment, metadataFragment) >
+    maxInboundPayloadSize
+  ) {
+    return false;
+  }
+
   if (!holder.hasFragments) {
     holder.hasFragments = true;
     holder.data = dataFragment;
@@ -36,7 +49,6 @@ export function add(
     return true;
   }
 
-  // TODO: add validation
   holder.data = holder.data
     ? Buffer.concat([holder.data, dataFragment])
     : dataFragment;
@@ -47,12 +59,24 @@ export function add(
   return true;
 }
 
+/**
+ * Reassembles the payload from the holder and the given last fragment. Returns
+ * `undefined` if the size of the payload would exceed `maxInboundPayloadSize`,
+ * in which case the holder is left untouched.
+ */
 export function reassemble(
   holder: FragmentsHolder,
   dataFragment: Buffer,
-  metadataFragment: Buffer | undefined | null
-): Payload {
-  // TODO: add validation
+  metadataFragment: Buffer | undefined | null,
+  maxInboundPayloadSize: number = Number.MAX_SAFE_INTEGER
+): Payload | undefined {
+  if (
+    accumulatedSize(holder, dataFragment, metadataFragment) >
+    maxInboundPayloadSize
+  ) {
+    return undefined;
+  }
+
   holder.hasFragments = false;
 
   const data = holder.data
@@ -79,6 +103,19 @@ export function reassemble(
   };
 }
 
+function accumulatedSize(
+  holder: FragmentsHolder,
+  dataFragment: Buffer | undefined | null,
+  metadataFragment: Buffer | undefined | null
+): number {
+  return (
+    (holder.data ? holder.data.length : 0) +
+    (holder.metadata ? holder.metadata.length : 0) +
+    (dataFragment ? dataFragment.length : 0) +
+    (metadataFragment ? metadataFragment.length : 0)
+  );
+}
+
 export function cancel(holder: FragmentsHolder): void {
   holder.hasFragments = false;
   holder.data = undefined;
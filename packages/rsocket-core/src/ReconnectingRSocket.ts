@@ -0,0 +1,480 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Availability, DisposeOptions } from "./Common";
+import { Deferred } from "./Deferred";
+import { ConnectionCloseError, ErrorCodes, RSocketError } from "./Errors";
+import { ForwardingRequest, RequestHandler } from "./Forwarding";
+import {
+  Cancellable,
+  OnExtensionSubscriber,
+  OnNextSubscriber,
+  OnTerminalSubscriber,
+  Payload,
+  Requestable,
+  RequestOptions,
+  RSocket,
+} from "./RSocket";
+
+/**
+ * Strategy computing the delay between the attempts to reconnect.
+ */
+export interface Backoff {
+  /**
+   * Returns the time in milliseconds to wait before the given attempt. The
+   * first attempt after a failure is `0`.
+   */
+  delay(attempt: number): number;
+}
+
+export namespace Backoff {
+  /**
+   * Waits the same `delay` before every attempt.
+   */
+  export function fixed(delay: number): Backoff {
+    return {
+      delay: () => delay,
+    };
+  }
+
+  /**
+   * Multiplies the delay by `multiplier` on every attempt, starting with
+   * `initialDelay` and up to `maxDelay`. The delay is randomly reduced by up
+   * to `jitter` of its value, so the clients disconnected at the same time do
+   * not reconnect at the same time. `multiplier` defaults to `2` and `jitter`
+   * to `0.5`.
+   */
+  export function exponential(options: {
+    initialDelay: number;
+    maxDelay: number;
+    multiplier?: number;
+    jitter?: number;
+  }): Backoff {
+    const multiplier = options.multiplier ?? 2;
+    const jitter = options.jitter ?? 0.5;
+
+    return {
+      delay: (attempt) => {
+        const delay = Math.min(
+          options.maxDelay,
+          options.initialDelay * Math.pow(multiplier, attempt)
+        );
+        return delay - delay * jitter * Math.random();
+      },
+    };
+  }
+}
+
+export type ReconnectingRSocketState =
+  | "connecting"
+  | "connected"
+  | "disconnected"
+  | "closed";
+
+export type ReconnectOptions = {
+  /**
+   * Defaults to an exponential backoff from 1 second up to 30 seconds.
+   */
+  backoff?: Backoff;
+  /**
+   * Max number of consecutive failed attempts to connect, after which the
+   * `ReconnectingRSocket` is closed. Unlimited by default.
+   */
+  maxAttempts?: number;
+  /**
+   * Whether the requests made while there is no connection are queued until
+   * the connection is established or failed straight away. Defaults to
+   * `queue`.
+   */
+  whileDisconnected?: "queue" | "fail";
+  /**
+   * Max number of requests queued while there is no connection. Defaults to
+   * `256`.
+   */
+  maxPendingRequests?: number;
+};
+
+/**
+ * A `RSocket` which survives its connections. Every time the connection is
+ * lost, a new one is established by the given `connect` function, so the
+ * setup is run again on a new transport connection.
+ */
+export class ReconnectingRSocket
+  extends Deferred
+  implements RSocket, Availability
+{
+  private readonly backoff: Backoff;
+  private readonly maxAttempts: number;
+  private readonly whileDisconnected: "queue" | "fail";
+  private readonly maxPendingRequests: number;
+  private readonly pendingRequests: Array<PendingRequest> = [];
+  private readonly callbacks: {
+    [state in ReconnectingRSocketState]: Array<(error?: Error) => void>;
+  } = {
+    connecting: [],
+    connected: [],
+    disconnected: [],
+    closed: [],
+  };
+
+  private _state: ReconnectingRSocketState = "disconnected";
+  private rsocket: (RSocket & Availability) | undefined;
+  private attempt = 0;
+  private timeoutId: any;
+  private started:
+    | { resolve: () => void; reject: (error: Error) => void }
+    | undefined;
+
+  constructor(
+    private readonly connect: () => Promise<RSocket & Availability>,
+    options: ReconnectOptions = {}
+  ) {
+    super();
+
+    this.backoff =
+      options.backoff ??
+      Backoff.exponential({ initialDelay: 1000, maxDelay: 30000 });
+    this.maxAttempts = options.maxAttempts ?? Number.MAX_SAFE_INTEGER;
+    this.whileDisconnected = options.whileDisconnected ?? "queue";
+    this.maxPendingRequests = options.maxPendingRequests ?? 256;
+  }
+
+  get state(): ReconnectingRSocketState {
+    return this._state;
+  }
+
+  /**
+   * Availability of the current connection, `0` while there is none.
+   */
+  get availability(): number {
+    return this.rsocket?.availability ?? 0;
+  }
+
+  get lastRtt(): number | undefined {
+    return this.rsocket?.lastRtt;
+  }
+
+  get smoothedRtt(): number | undefined {
+    return this.rsocket?.smoothedRtt;
+  }
+
+  /**
+   * Starts connecting. The returned promise resolves once the first
+   * connection is established and rejects if the `ReconnectingRSocket` is
+   * closed before.
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.started = { resolve, reject };
+      this.reconnect();
+    });
+  }
+
+  /**
+   * Registers a callback to be called every time the connection state changes
+   * to the given one. `disconnected` and `closed` are called with the error
+   * which caused them, if any.
+   */
+  on(state: ReconnectingRSocketState, callback: (error?: Error) => void): void {
+    this.callbacks[state].push(callback);
+  }
+
+  fireAndForget(
+    payload: Payload,
+    responderStream: OnTerminalSubscriber,
+    options?: RequestOptions
+  ): Cancellable {
+    return this.request(responderStream, (rsocket) =>
+      rsocket.fireAndForget(payload, responderStream, options)
+    );
+  }
+
+  requestResponse(
+    payload: Payload,
+    responderStream: OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber,
+    options?: RequestOptions
+  ): Cancellable & OnExtensionSubscriber {
+    return this.request(responderStream, (rsocket) =>
+      rsocket.requestResponse(payload, responderStream, options)
+    );
+  }
+
+  requestStream(
+    payload: Payload,
+    initialRequestN: number,
+    responderStream: OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber,
+    options?: RequestOptions
+  ): Requestable & Cancellable & OnExtensionSubscriber {
+    return this.request(responderStream, (rsocket) =>
+      rsocket.requestStream(payload, initialRequestN, responderStream, options)
+    );
+  }
+
+  requestChannel(
+    payload: Payload,
+    initialRequestN: number,
+    isCompleted: boolean,
+    responderStream: OnTerminalSubscriber &
+      OnNextSubscriber &
+      OnExtensionSubscriber &
+      Requestable &
+      Cancellable,
+    options?: RequestOptions
+  ): OnTerminalSubscriber &
+    OnNextSubscriber &
+    OnExtensionSubscriber &
+    Requestable &
+    Cancellable {
+    return this.request(responderStream, (rsocket) =>
+      rsocket.requestChannel(
+        payload,
+        initialRequestN,
+        isCompleted,
+        responderStream,
+        options
+      )
+    );
+  }
+
+  metadataPush(metadata: Buffer, responderStream: OnTerminalSubscriber): void {
+    this.request(responderStream, (rsocket) => {
+      rsocket.metadataPush(metadata, responderStream);
+      return { cancel: () => {} };
+    });
+  }
+
+  /**
+   * Connection level extensions are bound to the connection they are sent on,
+   * therefore they are dropped while there is no connection.
+   */
+  onExtension(
+    extendedType: number,
+    content: Buffer | null | undefined,
+    canBeIgnored: boolean
+  ): void {
+    this.rsocket?.onExtension?.(extendedType, content, canBeIgnored);
+  }
+
+  close(error?: Error): void {
+    if (this.done) {
+      return;
+    }
+
+    this.terminate(error);
+    this.rsocket?.close(error);
+
+    super.close(error);
+  }
+
+  async dispose(options?: DisposeOptions): Promise<void> {
+    if (this.done) {
+      return;
+    }
+
+    const rsocket = this.rsocket;
+
+    this.terminate();
+
+    if (rsocket?.dispose) {
+      await rsocket.dispose(options);
+    } else {
+      rsocket?.close();
+    }
+
+    if (!this.done) {
+      super.close();
+    }
+  }
+
+  private terminate(error?: Error): void {
+    clearTimeout(this.timeoutId);
+
+    const reason = error ?? new ConnectionCloseError("Connection is closed");
+    for (const pendingRequest of this.pendingRequests.splice(0)) {
+      pendingRequest.fail(reason);
+    }
+
+    this.started?.reject(reason);
+    this.started = undefined;
+    this.setState("closed", error);
+  }
+
+  private reconnect(): void {
+    this.setState("connecting");
+    this.connect().then(
+      (rsocket) => this.handleConnected(rsocket),
+      (error) => this.handleConnectionError(error)
+    );
+  }
+
+  private handleConnected(rsocket: RSocket & Availability): void {
+    if (this._state === "closed") {
+      rsocket.close();
+      return;
+    }
+
+    this.attempt = 0;
+    this.rsocket = rsocket;
+
+    rsocket.onClose((error) => {
+      this.rsocket = undefined;
+
+      if (this._state === "closed") {
+        return;
+      }
+
+      this.setState("disconnected", error);
+      this.reconnect();
+    });
+
+    this.setState("connected");
+    this.started?.resolve();
+    this.started = undefined;
+
+    for (const pendingRequest of this.pendingRequests.splice(0)) {
+      pendingRequest.start(rsocket);
+    }
+  }
+
+  private handleConnectionError(error: Error): void {
+    if (this._state === "closed") {
+      return;
+    }
+
+    const attempt = this.attempt++;
+    if (this.attempt >= this.maxAttempts) {
+      this.close(error);
+      return;
+    }
+
+    this.setState("disconnected", error);
+    this.timeoutId = setTimeout(
+      () => this.reconnect(),
+      this.backoff.delay(attempt)
+    );
+  }
+
+  private request<T extends Cancellable>(
+    receiver: OnTerminalSubscriber,
+    requester: (rsocket: RSocket) => T
+  ): T | PendingRequest {
+    if (this.rsocket) {
+      return requester(this.rsocket);
+    }
+
+    const pendingRequest = new PendingRequest(requester, receiver, () => {
+      const index = this.pendingRequests.indexOf(pendingRequest);
+      if (index > -1) {
+        this.pendingRequests.splice(index, 1);
+      }
+    });
+
+    if (this.done) {
+      pendingRequest.fail(new ConnectionCloseError("Connection is closed"));
+    } else if (this.whileDisconnected === "fail") {
+      pendingRequest.fail(
+        new RSocketError(ErrorCodes.REJECTED, "Connection is not established")
+      );
+    } else if (this.pendingRequests.length >= this.maxPendingRequests) {
+      pendingRequest.fail(
+        new RSocketError(
+          ErrorCodes.REJECTED,
+          "Max number of pending requests reached"
+        )
+      );
+    } else {
+      this.pendingRequests.push(pendingRequest);
+    }
+
+    return pendingRequest;
+  }
+
+  private setState(state: ReconnectingRSocketState, error?: Error): void {
+    this._state = state;
+
+    for (const callback of this.callbacks[state]) {
+      callback(error);
+    }
+  }
+}
+
+/**
+ * A request waiting for the connection. The signals sent by the requester in
+ * the meantime are replayed once the request is started.
+ */
+class PendingRequest extends ForwardingRequest {
+  private done = false;
+  private readonly signals: Array<(handler: RequestHandler) => void> = [];
+
+  constructor(
+    private readonly requester: (rsocket: RSocket) => RequestHandler,
+    private readonly receiver: OnTerminalSubscriber,
+    private readonly remove: () => void
+  ) {
+    super();
+  }
+
+  start(rsocket: RSocket): void {
+    if (this.done) {
+      return;
+    }
+
+    const handler = this.requester(rsocket);
+    this.handler = handler;
+
+    for (const signal of this.signals.splice(0)) {
+      signal(handler);
+    }
+  }
+
+  fail(error: Error): void {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    this.receiver.onError(error);
+  }
+
+  cancel(): void {
+    if (this.handler) {
+      this.handler.cancel();
+      return;
+    }
+
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    this.remove();
+  }
+
+  protected forward(signal: (handler: RequestHandler) => void): void {
+    if (this.handler) {
+      signal(this.handler);
+      return;
+    }
+
+    if (!this.done) {
+      this.signals.push(signal);
+    }
+  }
+}
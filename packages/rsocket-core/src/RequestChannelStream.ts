@@ -80,7 +80,8 @@ export class RequestChannelRequesterStream
       Cancellable,
     private readonly fragmentSize: number,
     private initialRequestN: number,
-    private readonly leaseManager?: LeaseManager
+    private readonly leaseManager?: LeaseManager,
+    private readonly maxInboundPayloadSize?: number
   ) {
     // TODO: add payload size validation
   }
@@ -165,6 +166,23 @@ export class RequestChannelRequesterStream
         const hasNext = Flags.hasNext(frame.flags);
 
         if (hasComplete || !Flags.hasFollows(frame.flags)) {
+          const payload: Payload = this.hasFragments
+            ? Reassembler.reassemble(
+                this,
+                frame.data,
+                frame.metadata,
+                this.maxInboundPayloadSize
+              )
+            : {
+                data: frame.data,
+                metadata: frame.metadata,
+              };
+
+          if (!payload) {
+            errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
+            break;
+          }
+
           if (hasComplete) {
             this.inboundDone = true;
 
@@ -179,22 +197,22 @@ export class RequestChannelRequesterStream
             }
           }
 
-          const payload: Payload = this.hasFragments
-            ? Reassembler.reassemble(this, frame.data, frame.metadata)
-            : {
-                data: frame.data,
-                metadata: frame.metadata,
-              };
-
           this.receiver.onNext(payload, hasComplete);
           return;
         }
 
-        if (Reassembler.add(this, frame.data, frame.metadata)) {
+        if (
+          Reassembler.add(
+            this,
+            frame.data,
+            frame.metadata,
+            this.maxInboundPayloadSize
+          )
+        ) {
           return;
         }
 
-        errorMessage = `Unexpected frame size`;
+        errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
         break;
       }
 
@@ -510,12 +528,32 @@ export class RequestChannelResponderStream
       OnExtensionSubscriber &
       OnTerminalSubscriber &
       OnNextSubscriber,
-    frame: RequestChannelFrame
+    frame: RequestChannelFrame,
+    private readonly maxInboundPayloadSize?: number
   ) {
     stream.connect(this);
 
     if (Flags.hasFollows(frame.flags)) {
-      Reassembler.add(this, frame.data, frame.metadata);
+      if (
+        !Reassembler.add(
+          this,
+          frame.data,
+          frame.metadata,
+          this.maxInboundPayloadSize
+        )
+      ) {
+        this.inboundDone = true;
+        this.outboundDone = true;
+        stream.send({
+          type: FrameTypes.ERROR,
+          flags: Flags.NONE,
+          code: ErrorCodes.CANCELED,
+          message: "Reassembled payload exceeds maxInboundPayloadSize",
+          streamId,
+        });
+        stream.disconnect(this);
+        return;
+      }
       this.initialRequestN = frame.requestN;
       this.isComplete = Flags.hasComplete(frame.flags);
       return;
@@ -553,20 +591,37 @@ export class RequestChannelResponderStream
     switch (frameType) {
       case FrameTypes.PAYLOAD: {
         if (Flags.hasFollows(frame.flags)) {
-          if (Reassembler.add(this, frame.data, frame.metadata)) {
+          if (
+            Reassembler.add(
+              this,
+              frame.data,
+              frame.metadata,
+              this.maxInboundPayloadSize
+            )
+          ) {
             return;
           }
-          errorMessage = `Unexpected frame size`;
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
           break;
         }
 
         const payload = this.hasFragments
-          ? Reassembler.reassemble(this, frame.data, frame.metadata)
+          ? Reassembler.reassemble(
+              this,
+              frame.data,
+              frame.metadata,
+              this.maxInboundPayloadSize
+            )
           : {
               data: frame.data,
               metadata: frame.metadata,
             };
 
+        if (!payload) {
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
+          break;
+        }
+
         const hasComplete = Flags.hasComplete(frame.flags);
 
         if (!this.receiver) {
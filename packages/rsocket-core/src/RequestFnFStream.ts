@@ -153,11 +153,24 @@ export class RequestFnfResponderStream
       payload: Payload,
       senderStream: OnTerminalSubscriber
     ) => Cancellable,
-    frame: RequestFnfFrame
+    frame: RequestFnfFrame,
+    private readonly maxInboundPayloadSize?: number
   ) {
     if (Flags.hasFollows(frame.flags)) {
-      Reassembler.add(this, frame.data, frame.metadata);
-      stream.connect(this);
+      if (
+        Reassembler.add(
+          this,
+          frame.data,
+          frame.metadata,
+          this.maxInboundPayloadSize
+        )
+      ) {
+        stream.connect(this);
+      } else {
+        // there is no way to signal rejection of fire and forget request,
+        // hence the request is dropped
+        this.done = true;
+      }
       return;
     }
 
@@ -173,36 +186,51 @@ export class RequestFnfResponderStream
   }
 
   handle(frame: CancelFrame | ErrorFrame | PayloadFrame): void {
-    let errorMessage: string;
+    let errorMessage: string | undefined;
     if (frame.type == FrameTypes.PAYLOAD) {
       if (Flags.hasFollows(frame.flags)) {
-        if (Reassembler.add(this, frame.data, frame.metadata)) {
+        if (
+          Reassembler.add(
+            this,
+            frame.data,
+            frame.metadata,
+            this.maxInboundPayloadSize
+          )
+        ) {
           return;
         }
-        errorMessage = "Unexpected fragment size";
       } else {
-        this.stream.disconnect(this);
-
         const payload = Reassembler.reassemble(
           this,
           frame.data,
-          frame.metadata
+          frame.metadata,
+          this.maxInboundPayloadSize
         );
 
-        try {
-          this.cancellable = this.handler(payload, this);
-        } catch (e) {
-          // do nothing
+        if (payload) {
+          this.stream.disconnect(this);
+
+          try {
+            this.cancellable = this.handler(payload, this);
+          } catch (e) {
+            // do nothing
+          }
+          return;
         }
-        return;
       }
+      // there is no way to signal rejection of fire and forget request,
+      // hence the request exceeding maxInboundPayloadSize is dropped
     } else {
       errorMessage = `Unexpected frame type [${frame.type}]`;
     }
 
     this.done = true;
 
-    if (frame.type != FrameTypes.CANCEL && frame.type != FrameTypes.ERROR) {
+    if (
+      errorMessage &&
+      frame.type != FrameTypes.CANCEL &&
+      frame.type != FrameTypes.ERROR
+    ) {
       this.stream.send({
         type: FrameTypes.ERROR,
         streamId: this.streamId,
@@ -70,7 +70,8 @@ export class RequestResponseRequesterStream
       OnNextSubscriber &
       OnExtensionSubscriber,
     private readonly fragmentSize: number,
-    private readonly leaseManager?: LeaseManager
+    private readonly leaseManager?: LeaseManager,
+    private readonly maxInboundPayloadSize?: number
   ) {}
 
   handleReady(streamId: number, stream: Stream): boolean {
@@ -140,6 +141,23 @@ export class RequestResponseRequesterStream
         const hasPayload = Flags.hasNext(frame.flags);
 
         if (hasComplete || !Flags.hasFollows(frame.flags)) {
+          const payload: Payload = this.hasFragments
+            ? Reassembler.reassemble(
+                this,
+                frame.data,
+                frame.metadata,
+                this.maxInboundPayloadSize
+              )
+            : {
+                data: frame.data,
+                metadata: frame.metadata,
+              };
+
+          if (!payload) {
+            errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
+            break;
+          }
+
           this.done = true;
 
           this.stream.disconnect(this);
@@ -150,19 +168,19 @@ export class RequestResponseRequesterStream
             return;
           }
 
-          const payload: Payload = this.hasFragments
-            ? Reassembler.reassemble(this, frame.data, frame.metadata)
-            : {
-                data: frame.data,
-                metadata: frame.metadata,
-              };
-
           this.receiver.onNext(payload, true);
           return;
         }
 
-        if (!Reassembler.add(this, frame.data, frame.metadata)) {
-          errorMessage = "Unexpected fragment size";
+        if (
+          !Reassembler.add(
+            this,
+            frame.data,
+            frame.metadata,
+            this.maxInboundPayloadSize
+          )
+        ) {
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
           break;
         }
         return;
@@ -299,12 +317,30 @@ export class RequestResponseResponderStream
         OnTerminalSubscriber &
         OnExtensionSubscriber
     ) => Cancellable & OnExtensionSubscriber,
-    frame: RequestResponseFrame
+    frame: RequestResponseFrame,
+    private readonly maxInboundPayloadSize?: number
   ) {
     stream.connect(this);
 
     if (Flags.hasFollows(frame.flags)) {
-      Reassembler.add(this, frame.data, frame.metadata);
+      if (
+        !Reassembler.add(
+          this,
+          frame.data,
+          frame.metadata,
+          this.maxInboundPayloadSize
+        )
+      ) {
+        this.done = true;
+        stream.send({
+          type: FrameTypes.ERROR,
+          flags: Flags.NONE,
+          code: ErrorCodes.CANCELED,
+          message: "Reassembled payload exceeds maxInboundPayloadSize",
+          streamId,
+        });
+        stream.disconnect(this);
+      }
       return;
     }
 
@@ -327,22 +363,33 @@ export class RequestResponseResponderStream
     if (!this.receiver || this.hasFragments) {
       if (frame.type === FrameTypes.PAYLOAD) {
         if (Flags.hasFollows(frame.flags)) {
-          if (Reassembler.add(this, frame.data, frame.metadata)) {
+          if (
+            Reassembler.add(
+              this,
+              frame.data,
+              frame.metadata,
+              this.maxInboundPayloadSize
+            )
+          ) {
             return;
           }
-          errorMessage = "Unexpected fragment size";
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
         } else {
           const payload = Reassembler.reassemble(
             this,
             frame.data,
-            frame.metadata
+            frame.metadata,
+            this.maxInboundPayloadSize
           );
-          try {
-            this.receiver = this.handler(payload, this);
-          } catch (error) {
-            this.onError(error);
+          if (payload) {
+            try {
+              this.receiver = this.handler(payload, this);
+            } catch (error) {
+              this.onError(error);
+            }
+            return;
           }
-          return;
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
         }
       } else {
         errorMessage = `Unexpected frame type [${frame.type}] during reassembly`;
@@ -74,7 +74,8 @@ export class RequestStreamRequesterStream
       OnExtensionSubscriber,
     private readonly fragmentSize: number,
     private initialRequestN: number,
-    private readonly leaseManager?: LeaseManager
+    private readonly leaseManager?: LeaseManager,
+    private readonly maxInboundPayloadSize?: number
   ) {
     // TODO: add payload size validation
   }
@@ -144,6 +145,23 @@ export class RequestStreamRequesterStream
         const hasNext = Flags.hasNext(frame.flags);
 
         if (hasComplete || !Flags.hasFollows(frame.flags)) {
+          const payload: Payload = this.hasFragments
+            ? Reassembler.reassemble(
+                this,
+                frame.data,
+                frame.metadata,
+                this.maxInboundPayloadSize
+              )
+            : {
+                data: frame.data,
+                metadata: frame.metadata,
+              };
+
+          if (!payload) {
+            errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
+            break;
+          }
+
           if (hasComplete) {
             this.done = true;
 
@@ -156,19 +174,19 @@ export class RequestStreamRequesterStream
             }
           }
 
-          const payload: Payload = this.hasFragments
-            ? Reassembler.reassemble(this, frame.data, frame.metadata)
-            : {
-                data: frame.data,
-                metadata: frame.metadata,
-              };
-
           this.receiver.onNext(payload, hasComplete);
           return;
         }
 
-        if (!Reassembler.add(this, frame.data, frame.metadata)) {
-          errorMessage = "Unexpected fragment size";
+        if (
+          !Reassembler.add(
+            this,
+            frame.data,
+            frame.metadata,
+            this.maxInboundPayloadSize
+          )
+        ) {
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
           break;
         }
         return;
@@ -325,13 +343,31 @@ export class RequestStreamResponderStream
         OnNextSubscriber &
         OnExtensionSubscriber
     ) => Cancellable & Requestable & OnExtensionSubscriber,
-    frame: RequestStreamFrame
+    frame: RequestStreamFrame,
+    private readonly maxInboundPayloadSize?: number
   ) {
     stream.connect(this);
 
     if (Flags.hasFollows(frame.flags)) {
       this.initialRequestN = frame.requestN;
-      Reassembler.add(this, frame.data, frame.metadata);
+      if (
+        !Reassembler.add(
+          this,
+          frame.data,
+          frame.metadata,
+          this.maxInboundPayloadSize
+        )
+      ) {
+        this.done = true;
+        stream.send({
+          type: FrameTypes.ERROR,
+          flags: Flags.NONE,
+          code: ErrorCodes.CANCELED,
+          message: "Reassembled payload exceeds maxInboundPayloadSize",
+          streamId,
+        });
+        stream.disconnect(this);
+      }
       return;
     }
 
@@ -354,24 +390,35 @@ export class RequestStreamResponderStream
     if (!this.receiver || this.hasFragments) {
       if (frame.type === FrameTypes.PAYLOAD) {
         if (Flags.hasFollows(frame.flags)) {
-          if (Reassembler.add(this, frame.data, frame.metadata)) {
+          if (
+            Reassembler.add(
+              this,
+              frame.data,
+              frame.metadata,
+              this.maxInboundPayloadSize
+            )
+          ) {
             return;
           }
-          errorMessage = `Unexpected frame size`;
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
         } else {
           const payload = Reassembler.reassemble(
             this,
             frame.data,
-            frame.metadata
+            frame.metadata,
+            this.maxInboundPayloadSize
           );
 
-          try {
-            this.receiver = this.handler(payload, this.initialRequestN, this);
-          } catch (error) {
-            this.onError(error);
-          }
+          if (payload) {
+            try {
+              this.receiver = this.handler(payload, this.initialRequestN, this);
+            } catch (error) {
+              this.onError(error);
+            }
 
-          return;
+            return;
+          }
+          errorMessage = "Reassembled payload exceeds maxInboundPayloadSize";
         }
       } else {
         errorMessage = `Unexpected frame type [${frame.type}] during reassembly`;
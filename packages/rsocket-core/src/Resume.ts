@@ -28,6 +28,18 @@ import {
   RequestStreamFrame,
 } from "./Frames";
 
+export enum FrameStoreOverflowPolicy {
+  /**
+   * Fails the session with REJECTED_RESUME error once the cache size is exceeded.
+   */
+  REJECT,
+  /**
+   * Drops all cached frames and disables resumption of the session once the
+   * cache size is exceeded. The current connection stays alive.
+   */
+  DROP_RESUMABILITY,
+}
+
 export class FrameStore {
   private readonly storedFrames: Array<
     | CancelFrame
@@ -44,6 +56,15 @@ export class FrameStore {
   private _lastReceivedFramePosition: number = 0;
   private _firstAvailableFramePosition: number = 0;
   private _lastSentFramePosition: number = 0;
+  private _size: number = 0;
+  private _droppedFramesCount: number = 0;
+  private _droppedBytes: number = 0;
+  private _resumable: boolean = true;
+
+  constructor(
+    private readonly cacheSize: number = Number.MAX_SAFE_INTEGER,
+    private readonly overflowPolicy: FrameStoreOverflowPolicy = FrameStoreOverflowPolicy.REJECT
+  ) {}
 
   get lastReceivedFramePosition(): number {
     return this._lastReceivedFramePosition;
@@ -57,6 +78,42 @@ export class FrameStore {
     return this._lastSentFramePosition;
   }
 
+  /**
+   * Number of bytes occupied by the frames which are stored at the moment.
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Number of frames which are stored at the moment.
+   */
+  get framesCount(): number {
+    return this.storedFrames.length;
+  }
+
+  /**
+   * Number of frames which were dropped without being acknowledged by the peer.
+   */
+  get droppedFramesCount(): number {
+    return this._droppedFramesCount;
+  }
+
+  /**
+   * Number of bytes which were dropped without being acknowledged by the peer.
+   */
+  get droppedBytes(): number {
+    return this._droppedBytes;
+  }
+
+  /**
+   * Whether all frames which have not been acknowledged by the peer are still
+   * available for resumption.
+   */
+  get resumable(): boolean {
+    return this._resumable;
+  }
+
   store(
     frame:
       | CancelFrame
@@ -70,7 +127,32 @@ export class FrameStore {
       | RequestStreamFrame
       | ExtFrame
   ): void {
-    this._lastSentFramePosition += sizeOfFrame(frame);
+    const frameSize = sizeOfFrame(frame);
+
+    if (this._resumable && this._size + frameSize > this.cacheSize) {
+      if (this.overflowPolicy === FrameStoreOverflowPolicy.REJECT) {
+        throw new RSocketError(
+          ErrorCodes.REJECTED_RESUME,
+          `Frames cache size of ${this.cacheSize} bytes exceeded`
+        );
+      }
+
+      this._resumable = false;
+      this._droppedFramesCount += this.storedFrames.length;
+      this._droppedBytes += this._size;
+      this.storedFrames.length = 0;
+      this._size = 0;
+    }
+
+    this._lastSentFramePosition += frameSize;
+
+    if (!this._resumable) {
+      this._droppedFramesCount++;
+      this._droppedBytes += frameSize;
+      return;
+    }
+
+    this._size += frameSize;
     this.storedFrames.push(frame);
   }
 
@@ -91,10 +173,17 @@ export class FrameStore {
   }
 
   dropTo(lastReceivedPosition: number): void {
+    if (!this._resumable) {
+      this._firstAvailableFramePosition = lastReceivedPosition;
+      return;
+    }
+
     let bytesToDrop = lastReceivedPosition - this._firstAvailableFramePosition;
     while (bytesToDrop > 0 && this.storedFrames.length > 0) {
       const storedFrame = this.storedFrames.shift();
-      bytesToDrop -= sizeOfFrame(storedFrame);
+      const storedFrameSize = sizeOfFrame(storedFrame);
+      bytesToDrop -= storedFrameSize;
+      this._size -= storedFrameSize;
     }
 
     if (bytesToDrop !== 0) {
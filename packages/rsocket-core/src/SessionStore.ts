@@ -0,0 +1,232 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Closeable } from "./Common";
+import { RejectedResumeError, RejectedSetupError } from "./Errors";
+import { ResumeFrame } from "./Frames";
+import {
+  Demultiplexer,
+  FrameHandler,
+  Multiplexer,
+  Outbound,
+} from "./Transport";
+
+/**
+ * Server side state of a resumable connection which survives the underlying
+ * transport connection.
+ */
+export interface ResumableSession
+  extends Closeable,
+    Multiplexer,
+    Demultiplexer,
+    FrameHandler {
+  readonly token: string;
+
+  /**
+   * Whether the session is closed, e.g. because it has failed to resume.
+   */
+  readonly done: boolean;
+
+  resume(frame: ResumeFrame, outbound: Outbound, closeable: Closeable): void;
+}
+
+export type SessionStoreEvent = "created" | "resumed" | "expired";
+
+export interface SessionStore {
+  /**
+   * Looks up the session associated with the given resume token.
+   */
+  get(token: string): ResumableSession | undefined;
+
+  /**
+   * Inserts a newly created session. Throws a `RejectedSetupError` if the session
+   * can not be accepted.
+   */
+  add(session: ResumableSession): void;
+
+  /**
+   * Looks up the session associated with the given resume token in order to
+   * resume it.
+   */
+  resume(token: string): ResumableSession | undefined;
+
+  /**
+   * Notifies the store that the session associated with the given resume
+   * token has been resumed over a new connection.
+   */
+  resumed(token: string): void;
+
+  /**
+   * Notifies the store that the connection of the session associated with the
+   * given resume token is lost, so the session awaits to be resumed.
+   */
+  disconnected(token: string): void;
+
+  /**
+   * Removes the session associated with the given resume token from the
+   * store, so it can not be resumed anymore.
+   */
+  expire(token: string): void;
+
+  /**
+   * Returns all the sessions currently held by the store.
+   */
+  sessions(): Array<ResumableSession>;
+
+  /**
+   * Registers a callback to be called on the given session lifecycle event.
+   */
+  on(
+    event: SessionStoreEvent,
+    callback: (session: ResumableSession) => void
+  ): void;
+}
+
+type SessionEntry = {
+  session: ResumableSession;
+  /**
+   * Time the connection of the session was lost at, undefined while it is
+   * connected.
+   */
+  disconnectedTime?: number;
+};
+
+export class InMemorySessionStore implements SessionStore {
+  private readonly entries: { [token: string]: SessionEntry } = {};
+  private readonly callbacks: {
+    [event in SessionStoreEvent]: Array<(session: ResumableSession) => void>;
+  } = {
+    created: [],
+    resumed: [],
+    expired: [],
+  };
+  private readonly ttl: number;
+  private readonly maxSessions: number;
+
+  constructor(
+    options: {
+      /**
+       * Time in milliseconds a session may be resumed within since its
+       * connection was lost. Unlimited by default.
+       */
+      ttl?: number;
+      /**
+       * Max number of sessions held at the same time. Unlimited by default.
+       */
+      maxSessions?: number;
+    } = {}
+  ) {
+    this.ttl = options.ttl ?? Number.MAX_SAFE_INTEGER;
+    this.maxSessions = options.maxSessions ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  get(token: string): ResumableSession | undefined {
+    const entry = this.entries[token];
+    if (!entry) {
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      this.expireEntry(token, entry);
+      return undefined;
+    }
+
+    return entry.session;
+  }
+
+  add(session: ResumableSession): void {
+    const token = session.token;
+    if (this.get(token)) {
+      throw new RejectedSetupError(
+        "Session with the given resume token already exists"
+      );
+    }
+
+    if (this.sessions().length >= this.maxSessions) {
+      throw new RejectedSetupError("Max number of resumable sessions reached");
+    }
+
+    this.entries[token] = { session };
+    this.emit("created", session);
+  }
+
+  resume(token: string): ResumableSession | undefined {
+    return this.get(token);
+  }
+
+  resumed(token: string): void {
+    const entry = this.entries[token];
+    if (!entry) {
+      return;
+    }
+
+    entry.disconnectedTime = undefined;
+    this.emit("resumed", entry.session);
+  }
+
+  disconnected(token: string): void {
+    const entry = this.entries[token];
+    if (entry && entry.disconnectedTime === undefined) {
+      entry.disconnectedTime = Date.now();
+    }
+  }
+
+  expire(token: string): void {
+    const entry = this.entries[token];
+    if (!entry) {
+      return;
+    }
+
+    delete this.entries[token];
+    this.emit("expired", entry.session);
+  }
+
+  sessions(): Array<ResumableSession> {
+    const sessions = [];
+    for (const token of Object.keys(this.entries)) {
+      const session = this.get(token);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  on(
+    event: SessionStoreEvent,
+    callback: (session: ResumableSession) => void
+  ): void {
+    this.callbacks[event].push(callback);
+  }
+
+  private isExpired(entry: SessionEntry): boolean {
+    return (
+      entry.disconnectedTime !== undefined &&
+      Date.now() - entry.disconnectedTime > this.ttl
+    );
+  }
+
+  private expireEntry(token: string, entry: SessionEntry): void {
+    this.expire(token);
+    entry.session.close(new RejectedResumeError("Session expired"));
+  }
+
+  private emit(event: SessionStoreEvent, session: ResumableSession): void {
+    for (const callback of this.callbacks[event]) {
+      callback(session);
+    }
+  }
+}
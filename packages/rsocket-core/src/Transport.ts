@@ -76,6 +76,7 @@ export interface ConnectionFrameHandler extends FrameHandler {
       | KeepAliveFrame
       | ErrorFrame
       | MetadataPushFrame
+      | ExtFrame
   ): void;
 
   pause(): void;
@@ -118,6 +119,12 @@ export interface Multiplexer {
   createRequestStream(
     streamHandler: StreamFrameHandler & StreamLifecycleHandler
   ): void;
+
+  /**
+   * Stops accepting new streams and resolves once all the active streams are
+   * terminated or the given `timeout` has elapsed.
+   */
+  drain(timeout?: number): Promise<void>;
 }
 
 export interface Demultiplexer {
@@ -126,12 +133,96 @@ export interface Demultiplexer {
   handleRequestStream(handler: StreamRequestHandler): void;
 }
 
+/**
+ * Distinguished name of the subject or the issuer of a certificate.
+ */
+export type CertificateName = {
+  C?: string;
+  ST?: string;
+  L?: string;
+  O?: string;
+  OU?: string;
+  CN?: string;
+};
+
+/**
+ * Certificate of the peer of a TLS connection. A structural subset of the
+ * `PeerCertificate` of the Node.js `tls` module, which can be used as is.
+ */
+export type PeerCertificate = {
+  subject: CertificateName;
+  issuer: CertificateName;
+  subjectaltname?: string;
+  valid_from: string;
+  valid_to: string;
+  fingerprint: string;
+  fingerprint256?: string;
+  serialNumber: string;
+  raw: Buffer;
+};
+
+/**
+ * Details of a connection secured with TLS.
+ */
+export type TlsInfo = {
+  /**
+   * Negotiated protocol version, e.g. `TLSv1.3`.
+   */
+  protocol?: string;
+  /**
+   * Name of the negotiated cipher suite.
+   */
+  cipher?: string;
+  /**
+   * Whether the peer certificate has been verified against the trusted
+   * certificate authorities.
+   */
+  authorized: boolean;
+  /**
+   * Certificate the peer has authenticated with, if the peer has sent one.
+   */
+  peerCertificate?: PeerCertificate;
+};
+
+/**
+ * Information about a connection, built by the transport which established
+ * it.
+ */
+export type ConnectionInfo = {
+  /**
+   * Kind of the transport, e.g. `tcp`, `tls`, `websocket` or `local`.
+   */
+  transport: string;
+  remoteAddress?: string;
+  remotePort?: number;
+  /**
+   * TLS details, if the connection is secured with TLS.
+   */
+  tls?: TlsInfo;
+  /**
+   * Headers of the HTTP upgrade request, if the connection is a WebSocket
+   * accepted by a server.
+   */
+  headers?: { [name: string]: string | string[] | undefined };
+};
+
 /**
  * Represents a network connection with input/output used by a ReactiveSocket to
  * send/receive data.
  */
 export interface DuplexConnection extends Closeable, Availability {
   readonly multiplexerDemultiplexer: Multiplexer & Demultiplexer;
+
+  /**
+   * Information about the underlying connection, e.g. the address of the peer.
+   */
+  readonly connectionInfo?: ConnectionInfo;
+
+  /**
+   * Transport specific context established while accepting the connection,
+   * e.g. by the upgrade authorization of the WebSocket server transport.
+   */
+  readonly context?: unknown;
 }
 
 export interface ClientTransport {
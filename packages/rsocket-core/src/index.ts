@@ -18,8 +18,17 @@ export * from "./Codecs";
 export * from "./Common";
 export * from "./Deferred";
 export * from "./Errors";
+export * from "./Extensions";
+export * from "./FrameObserver";
 export * from "./Frames";
+export * from "./Interceptors";
+export * from "./Lease";
+export * from "./LoadbalanceRSocket";
+export * from "./Metrics";
 export * from "./RSocket";
 export * from "./RSocketConnector";
 export * from "./RSocketServer";
+export * from "./ReconnectingRSocket";
+export * from "./Resume";
+export * from "./SessionStore";
 export * from "./Transport";
@@ -0,0 +1,84 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ClientTransport,
+  Closeable,
+  Demultiplexer,
+  DuplexConnection,
+  FrameHandler,
+  FrameObserver,
+  logFrames,
+  Multiplexer,
+  Outbound,
+} from "rsocket-core";
+import { LocalDuplexConnection } from "./LocalDuplexConnection";
+import { lookup } from "./LocalRegistry";
+
+type LocalClientOptions = {
+  /**
+   * Name the `LocalServerTransport` to connect to is bound with.
+   */
+  name: string;
+  /**
+   * Whether the sent frames are serialized rather than passed as objects,
+   * which exercises the codecs. Defaults to `false`.
+   */
+  serialize?: boolean;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
+};
+
+export class LocalClientTransport implements ClientTransport {
+  private readonly name: string;
+  private readonly serialize: boolean;
+  private readonly frameObserver?: FrameObserver;
+
+  constructor(options: LocalClientOptions) {
+    this.name = options.name;
+    this.serialize = options.serialize ?? false;
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
+  }
+
+  connect(
+    multiplexerDemultiplexerFactory: (
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler
+  ): Promise<DuplexConnection> {
+    const server = lookup(this.name);
+    if (!server) {
+      return Promise.reject(
+        new Error(`No local server bound with name [${this.name}]`)
+      );
+    }
+
+    const connection = new LocalDuplexConnection(
+      multiplexerDemultiplexerFactory,
+      this.serialize,
+      this.frameObserver
+    );
+    connection.connect(server.connect(connection));
+
+    return Promise.resolve(connection);
+  }
+}
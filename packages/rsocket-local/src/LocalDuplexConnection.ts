@@ -0,0 +1,144 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Closeable,
+  ConnectionInfo,
+  Deferred,
+  Demultiplexer,
+  deserializeFrame,
+  DuplexConnection,
+  Frame,
+  FrameHandler,
+  FrameObserver,
+  Multiplexer,
+  Outbound,
+  serializeFrame,
+} from "rsocket-core";
+
+/**
+ * The end of an in-process connection the frames are delivered to, either as
+ * objects or serialized.
+ */
+export interface LocalPeer {
+  receive(data: Frame | Buffer): void;
+
+  handlePeerClosed(): void;
+}
+
+export class LocalDuplexConnection
+  extends Deferred
+  implements DuplexConnection, Outbound, LocalPeer
+{
+  private peer: LocalPeer;
+  private paused: boolean = false;
+  private readonly pending: Array<Frame | Buffer> = [];
+
+  readonly multiplexerDemultiplexer: Multiplexer & Demultiplexer & FrameHandler;
+  readonly connectionInfo: ConnectionInfo = { transport: "local" };
+
+  constructor(
+    multiplexerDemultiplexerFactory: (
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    private readonly serialize: boolean,
+    private readonly frameObserver?: FrameObserver
+  ) {
+    super();
+
+    this.multiplexerDemultiplexer = multiplexerDemultiplexerFactory(this);
+  }
+
+  get availability(): number {
+    return this.done ? 0 : 1;
+  }
+
+  /**
+   * Links the connection with its peer. Frames are delivered asynchronously,
+   * so the peer can be linked right after the connection is created.
+   */
+  connect(peer: LocalPeer): void {
+    this.peer = peer;
+  }
+
+  close(error?: Error) {
+    if (this.done) {
+      super.close(error);
+      return;
+    }
+
+    super.close(error);
+
+    // delivered after the frames sent before closing
+    queueMicrotask(() => this.peer.handlePeerClosed());
+  }
+
+  send(frame: Frame): void {
+    if (this.done) {
+      return;
+    }
+
+    this.frameObserver?.(frame, "outbound", Date.now());
+
+    const data = this.serialize ? serializeFrame(frame) : frame;
+
+    // delivered asynchronously, as a socket would do, so a frame is never
+    // handled within the call sending it
+    queueMicrotask(() => this.peer.receive(data));
+  }
+
+  receive(data: Frame | Buffer): void {
+    if (this.done) {
+      return;
+    }
+
+    if (this.paused) {
+      this.pending.push(data);
+      return;
+    }
+
+    try {
+      const frame = Buffer.isBuffer(data) ? deserializeFrame(data) : data;
+      this.frameObserver?.(frame, "inbound", Date.now());
+      this.multiplexerDemultiplexer.handle(frame);
+    } catch (error) {
+      this.close(error);
+    }
+  }
+
+  handlePeerClosed(): void {
+    if (this.done) {
+      return;
+    }
+
+    this.close(new Error("LocalDuplexConnection: Connection closed by peer."));
+  }
+
+  /**
+   * Holds the received frames until `resume` is called.
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+
+    while (this.pending.length && !this.paused) {
+      this.receive(this.pending.shift());
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LocalPeer } from "./LocalDuplexConnection";
+
+export interface LocalServer {
+  /**
+   * Opens a connection with the given client and returns the server end of
+   * it.
+   */
+  connect(client: LocalPeer): LocalPeer;
+}
+
+// servers bound in the current process, by name
+const servers: { [name: string]: LocalServer } = {};
+
+export function register(name: string, server: LocalServer): boolean {
+  if (servers[name]) {
+    return false;
+  }
+
+  servers[name] = server;
+  return true;
+}
+
+export function unregister(name: string, server: LocalServer): void {
+  if (servers[name] === server) {
+    delete servers[name];
+  }
+}
+
+export function lookup(name: string): LocalServer | undefined {
+  return servers[name];
+}
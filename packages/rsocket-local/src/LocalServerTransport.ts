@@ -0,0 +1,176 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Closeable,
+  Deferred,
+  Demultiplexer,
+  deserializeFrame,
+  DuplexConnection,
+  Frame,
+  FrameHandler,
+  FrameObserver,
+  logFrames,
+  Multiplexer,
+  Outbound,
+  ServerTransport,
+} from "rsocket-core";
+import { LocalDuplexConnection, LocalPeer } from "./LocalDuplexConnection";
+import { LocalServer, register, unregister } from "./LocalRegistry";
+
+type LocalServerOptions = {
+  /**
+   * Name the `LocalClientTransport`s connect with. It is unique within the
+   * process.
+   */
+  name: string;
+  /**
+   * Whether the sent frames are serialized rather than passed as objects,
+   * which exercises the codecs. Defaults to `false`.
+   */
+  serialize?: boolean;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
+};
+
+export class LocalServerTransport implements ServerTransport {
+  private readonly name: string;
+  private readonly serialize: boolean;
+  private readonly frameObserver?: FrameObserver;
+
+  constructor(options: LocalServerOptions) {
+    this.name = options.name;
+    this.serialize = options.serialize ?? false;
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
+  }
+
+  bind(
+    connectionAcceptor: (
+      frame: Frame,
+      connection: DuplexConnection
+    ) => Promise<void>,
+    multiplexerDemultiplexerFactory: (
+      frame: Frame,
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler
+  ): Promise<Closeable> {
+    const server: LocalServer = {
+      connect: (client) =>
+        new ServerEndpoint(
+          client,
+          connectionAcceptor,
+          multiplexerDemultiplexerFactory,
+          this.serialize,
+          this.frameObserver
+        ),
+    };
+
+    if (!register(this.name, server)) {
+      return Promise.reject(
+        new Error(`Local server with name [${this.name}] is already bound`)
+      );
+    }
+
+    return Promise.resolve(new ServerCloseable(this.name, server));
+  }
+}
+
+/**
+ * Server end of a connection, which creates the `LocalDuplexConnection` once
+ * the first frame is received.
+ */
+class ServerEndpoint implements LocalPeer {
+  private connection?: LocalDuplexConnection;
+
+  constructor(
+    private readonly client: LocalPeer,
+    private readonly connectionAcceptor: (
+      frame: Frame,
+      connection: DuplexConnection
+    ) => Promise<void>,
+    private readonly multiplexerDemultiplexerFactory: (
+      frame: Frame,
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    private readonly serialize: boolean,
+    private readonly frameObserver?: FrameObserver
+  ) {}
+
+  receive(data: Frame | Buffer): void {
+    if (this.connection) {
+      this.connection.receive(data);
+      return;
+    }
+
+    let frame: Frame;
+    try {
+      frame = Buffer.isBuffer(data) ? deserializeFrame(data) : data;
+    } catch (error) {
+      this.client.handlePeerClosed();
+      return;
+    }
+
+    this.frameObserver?.(frame, "inbound", Date.now());
+
+    const connection = new LocalDuplexConnection(
+      (outbound) => this.multiplexerDemultiplexerFactory(frame, outbound),
+      this.serialize,
+      this.frameObserver
+    );
+    connection.connect(this.client);
+    this.connection = connection;
+
+    if (connection.done) {
+      return;
+    }
+
+    connection.pause();
+    this.connectionAcceptor(frame, connection).then(
+      () => connection.resume(),
+      (error) => connection.close(error)
+    );
+  }
+
+  handlePeerClosed(): void {
+    this.connection?.handlePeerClosed();
+  }
+}
+
+class ServerCloseable extends Deferred {
+  constructor(
+    private readonly name: string,
+    private readonly server: LocalServer
+  ) {
+    super();
+  }
+
+  close(error?: Error) {
+    if (this.done) {
+      super.close(error);
+      return;
+    }
+
+    unregister(this.name, this.server);
+    super.close();
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  Closeable,
+  DuplexConnection,
+  Frame,
+  FrameTypes,
+  Payload,
+  RSocket,
+  RSocketConnector,
+  RSocketServer,
+  Stream,
+  StreamFrameHandler,
+} from "rsocket-core";
+import { LocalClientTransport } from "../LocalClientTransport";
+import { LocalServerTransport } from "../LocalServerTransport";
+
+describe("LocalTransport", () => {
+  let server: Closeable | undefined;
+  let client: RSocket | undefined;
+
+  afterEach(() => {
+    client?.close();
+    server?.close();
+    client = undefined;
+    server = undefined;
+  });
+
+  async function bind(name: string, serialize?: boolean) {
+    const received: Array<Payload> = [];
+    server = await new RSocketServer({
+      transport: new LocalServerTransport({ name, serialize }),
+      acceptor: {
+        accept: async () => ({
+          requestResponse: (payload, responderStream) => {
+            received.push(payload);
+            responderStream.onNext(payload, true);
+            return {
+              cancel() {},
+              onExtension() {},
+            };
+          },
+        }),
+      },
+    }).bind();
+    return received;
+  }
+
+  function connect(name: string, serialize?: boolean) {
+    return new RSocketConnector({
+      transport: new LocalClientTransport({ name, serialize }),
+    }).connect();
+  }
+
+  function requestResponse(rsocket: RSocket, payload: Payload) {
+    return new Promise<Payload>((resolve, reject) =>
+      rsocket.requestResponse(payload, {
+        onNext: (response) => resolve(response),
+        onError: reject,
+        onComplete() {},
+        onExtension() {},
+      })
+    );
+  }
+
+  /**
+   * Decorates the multiplexer of the connection, recording the frames which
+   * pass through its connection outbound and the streams it creates.
+   */
+  function recordFrames(
+    connection: DuplexConnection,
+    frames: Array<string>
+  ): DuplexConnection {
+    const record = (direction: string, frame: Frame) =>
+      frames.push(`${direction} ${FrameTypes[frame.type]}`);
+    const inbound = (handler: StreamFrameHandler): StreamFrameHandler => ({
+      streamId: handler.streamId,
+      streamType: handler.streamType,
+      handle: (frame) => {
+        record("<<", frame);
+        handler.handle(frame);
+      },
+      close: (error) => handler.close(error),
+    });
+    const recorded = (stream: Stream): Stream => ({
+      send: (frame) => {
+        record(">>", frame);
+        stream.send(frame);
+      },
+      connect: (handler) => stream.connect(inbound(handler)),
+      disconnect: (handler) => stream.disconnect(handler),
+    });
+    const multiplexerDemultiplexer = connection.multiplexerDemultiplexer;
+
+    return {
+      get availability() {
+        return connection.availability;
+      },
+      close: (error) => connection.close(error),
+      onClose: (callback) => connection.onClose(callback),
+      multiplexerDemultiplexer: {
+        connectionOutbound: {
+          send: (frame) => {
+            record(">>", frame);
+            multiplexerDemultiplexer.connectionOutbound.send(frame);
+          },
+        },
+        createRequestStream: (handler) =>
+          multiplexerDemultiplexer.createRequestStream({
+            get streamId() {
+              return handler.streamId;
+            },
+            streamType: handler.streamType,
+            handle: (frame) => handler.handle(frame),
+            close: (error) => handler.close(error),
+            handleReady: (streamId, stream) =>
+              handler.handleReady(streamId, recorded(stream)),
+            handleReject: (error) => handler.handleReject(error),
+          }),
+        drain: (timeout) => multiplexerDemultiplexer.drain(timeout),
+        connectionInbound: (handler) =>
+          multiplexerDemultiplexer.connectionInbound(handler),
+        handleRequestStream: (handler) =>
+          multiplexerDemultiplexer.handleRequestStream(handler),
+      },
+    };
+  }
+
+  it("passes the frames through the connection interceptors", async () => {
+    await bind("intercepted");
+    const frames: Array<string> = [];
+    client = await new RSocketConnector({
+      transport: new LocalClientTransport({ name: "intercepted" }),
+      interceptors: {
+        connection: [(connection) => recordFrames(connection, frames)],
+      },
+    }).connect();
+
+    await requestResponse(client, { data: Buffer.from("hello") });
+
+    expect(frames).toEqual([">> SETUP", ">> REQUEST_RESPONSE", "<< PAYLOAD"]);
+  });
+
+  it("passes the frames as objects", async () => {
+    const received = await bind("objects");
+    client = await connect("objects");
+    const data = Buffer.from("hello");
+
+    const response = await requestResponse(client, { data });
+
+    expect(received[0].data).toBe(data);
+    expect(response.data).toBe(data);
+  });
+
+  it("serializes the frames when configured", async () => {
+    const received = await bind("serialized", true);
+    client = await connect("serialized", true);
+    const data = Buffer.from("hello");
+
+    const response = await requestResponse(client, { data });
+
+    expect(received[0].data).not.toBe(data);
+    expect(received[0].data).toEqual(data);
+    expect(response.data).toEqual(data);
+  });
+
+  it("rejects connecting to an unknown name", async () => {
+    await expect(connect("unknown")).rejects.toThrow(
+      "No local server bound with name [unknown]"
+    );
+  });
+
+  it("rejects binding a name twice", async () => {
+    await bind("twice");
+
+    await expect(
+      new RSocketServer({
+        transport: new LocalServerTransport({ name: "twice" }),
+        acceptor: { accept: async () => ({}) },
+      }).bind()
+    ).rejects.toThrow("Local server with name [twice] is already bound");
+  });
+
+  it("releases the name once the server is closed", async () => {
+    await bind("released");
+    server.close();
+
+    await expect(connect("released")).rejects.toThrow(
+      "No local server bound with name [released]"
+    );
+    await bind("released");
+  });
+
+  it("closes the peer when the connection is closed", async () => {
+    let serverRSocket: RSocket;
+    server = await new RSocketServer({
+      transport: new LocalServerTransport({ name: "close" }),
+      acceptor: {
+        accept: async (setup, rsocket) => {
+          serverRSocket = rsocket;
+          return {};
+        },
+      },
+    }).bind();
+    client = await connect("close");
+    await requestResponse(client, { data: Buffer.from("hello") }).catch(
+      () => {}
+    );
+    const closed = new Promise<Error | undefined>((resolve) =>
+      serverRSocket.onClose(resolve)
+    );
+
+    client.close();
+    client = undefined;
+
+    await expect(closed).resolves.toEqual(
+      new Error("LocalDuplexConnection: Connection closed by peer.")
+    );
+  });
+});
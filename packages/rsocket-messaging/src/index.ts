@@ -24,6 +24,7 @@ import {
 } from "rsocket-composite-metadata";
 import {
   Cancellable,
+  DisposeOptions,
   ErrorCodes,
   FrameTypes,
   OnExtensionSubscriber,
@@ -393,6 +394,8 @@ class DefaultRSocketResponder
 
   onClose(callback: (error?: Error) => void): void {}
 
+  async dispose(options?: DisposeOptions): Promise<void> {}
+
   findTypesRegistry(metadata: Buffer | undefined): TypesRegistry {
     if (metadata && metadata.length) {
       for (let entry of decodeCompositeMetadata(metadata)) {
@@ -0,0 +1,81 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ClientTransport,
+  Closeable,
+  ConnectionInfo,
+  Demultiplexer,
+  Deserializer,
+  DuplexConnection,
+  FrameHandler,
+  FrameObserver,
+  logFrames,
+  Multiplexer,
+  Outbound,
+} from "rsocket-core";
+import { Duplex } from "stream";
+import { StreamDuplexConnection } from "./StreamDuplexConnection";
+
+type DuplexStreamClientOptions = {
+  /**
+   * Creates the stream to connect over, e.g. `net.connect({ path })` for a
+   * Unix domain socket or a named pipe.
+   */
+  streamCreator: () => Duplex | Promise<Duplex>;
+  /**
+   * Describes the connection to the responder. Defaults to the `stream`
+   * transport.
+   */
+  connectionInfo?: ConnectionInfo;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
+};
+
+export class DuplexStreamClientTransport implements ClientTransport {
+  private readonly streamCreator: () => Duplex | Promise<Duplex>;
+  private readonly connectionInfo?: ConnectionInfo;
+  private readonly frameObserver?: FrameObserver;
+
+  constructor(options: DuplexStreamClientOptions) {
+    this.streamCreator = options.streamCreator;
+    this.connectionInfo = options.connectionInfo;
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
+  }
+
+  async connect(
+    multiplexerDemultiplexerFactory: (
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler
+  ): Promise<DuplexConnection> {
+    const stream = await this.streamCreator();
+
+    return new StreamDuplexConnection(
+      stream,
+      new Deserializer(),
+      multiplexerDemultiplexerFactory,
+      this.frameObserver,
+      this.connectionInfo
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Closeable,
+  ConnectionInfo,
+  Deferred,
+  Demultiplexer,
+  DuplexConnection,
+  Frame,
+  FrameHandler,
+  FrameObserver,
+  logFrames,
+  Multiplexer,
+  Outbound,
+  ServerTransport,
+} from "rsocket-core";
+import { Duplex } from "stream";
+import { StreamDuplexConnection } from "./StreamDuplexConnection";
+
+type DuplexStreamServerOptions = {
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
+};
+
+/**
+ * Accepts the connections over the streams handed over with `accept`, e.g.
+ * the sockets of a `net.Server` listening on a Unix domain socket or the
+ * stdio of a child process.
+ */
+export class DuplexStreamServerTransport implements ServerTransport {
+  private readonly frameObserver?: FrameObserver;
+  private streamAcceptor?: (
+    stream: Duplex,
+    connectionInfo?: ConnectionInfo
+  ) => void;
+
+  constructor(options: DuplexStreamServerOptions = {}) {
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
+  }
+
+  bind(
+    connectionAcceptor: (
+      frame: Frame,
+      connection: DuplexConnection
+    ) => Promise<void>,
+    multiplexerDemultiplexerFactory: (
+      frame: Frame,
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler
+  ): Promise<Closeable> {
+    if (this.streamAcceptor) {
+      return Promise.reject(
+        new Error("DuplexStreamServerTransport is already bound")
+      );
+    }
+
+    const serverCloseable = new Deferred();
+    this.streamAcceptor = (stream, connectionInfo) =>
+      StreamDuplexConnection.create(
+        stream,
+        connectionAcceptor,
+        multiplexerDemultiplexerFactory,
+        this.frameObserver,
+        connectionInfo
+      );
+    serverCloseable.onClose(() => (this.streamAcceptor = undefined));
+
+    return Promise.resolve(serverCloseable);
+  }
+
+  /**
+   * Accepts a connection over the given stream once its first frame is
+   * received. Streams handed over before the transport is bound or after it
+   * is closed are destroyed.
+   */
+  accept(stream: Duplex, connectionInfo?: ConnectionInfo): void {
+    if (!this.streamAcceptor) {
+      stream.destroy();
+      return;
+    }
+
+    this.streamAcceptor(stream, connectionInfo);
+  }
+}
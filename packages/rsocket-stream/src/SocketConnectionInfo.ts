@@ -0,0 +1,49 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ConnectionInfo } from "rsocket-core";
+import net from "net";
+import tls from "tls";
+
+/**
+ * Builds the `ConnectionInfo` of a connected TCP or TLS socket.
+ */
+export function socketConnectionInfo(socket: net.Socket): ConnectionInfo {
+  const connectionInfo: ConnectionInfo = {
+    transport: "tcp",
+    remoteAddress: socket.remoteAddress,
+    remotePort: socket.remotePort,
+  };
+  if (!(socket instanceof tls.TLSSocket)) {
+    return connectionInfo;
+  }
+
+  const certificate = socket.getPeerCertificate();
+  return {
+    ...connectionInfo,
+    transport: "tls",
+    tls: {
+      protocol: socket.getProtocol() ?? undefined,
+      cipher: socket.getCipher()?.name,
+      authorized: socket.authorized,
+      // an empty object is returned if the peer has not sent a certificate
+      peerCertificate:
+        certificate && Object.keys(certificate).length
+          ? certificate
+          : undefined,
+    },
+  };
+}
@@ -0,0 +1,215 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Closeable,
+  ConnectionInfo,
+  Deferred,
+  Demultiplexer,
+  Deserializer,
+  DuplexConnection,
+  Frame,
+  FrameHandler,
+  FrameObserver,
+  Multiplexer,
+  Outbound,
+  serializeFrameWithLength,
+} from "rsocket-core";
+import { Duplex } from "stream";
+
+/**
+ * Connection over any `stream.Duplex`, e.g. a TCP socket, a Unix domain
+ * socket or the stdio of a child process, exchanging length-prefixed frames.
+ */
+export class StreamDuplexConnection
+  extends Deferred
+  implements DuplexConnection, Outbound
+{
+  private error: Error;
+  private remainingBuffer: Buffer = Buffer.allocUnsafe(0);
+
+  readonly multiplexerDemultiplexer: Multiplexer & Demultiplexer & FrameHandler;
+
+  constructor(
+    private stream: Duplex,
+    // dependency injected to facilitate testing
+    private readonly deserializer: Deserializer,
+    multiplexerDemultiplexerFactory: (
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    private readonly frameObserver?: FrameObserver,
+    readonly connectionInfo: ConnectionInfo = { transport: "stream" }
+  ) {
+    super();
+
+    /**
+     * Emitted when an error occurs. The 'close' event is expected to be emitted directly following this event.
+     */
+    stream.on("error", this.handleError);
+
+    /**
+     * Emitted once the stream and its underlying resources are closed.
+     */
+    stream.on("close", this.handleClosed);
+
+    /**
+     * Emitted once the peer has ended the readable side, or the writable side
+     * has been ended, which not every stream follows with a 'close' event.
+     */
+    stream.on("end", this.handleClosed);
+    stream.on("finish", this.handleClosed);
+
+    /**
+     * Emitted when data is received. The data will be lost if there is no listener when a stream emits a 'data' event.
+     */
+    stream.on("data", this.handleData);
+
+    this.multiplexerDemultiplexer = multiplexerDemultiplexerFactory(this);
+  }
+
+  get availability(): number {
+    return this.done ? 0 : 1;
+  }
+
+  close(error?: Error) {
+    if (this.done) {
+      return;
+    }
+
+    this.stream.off("error", this.handleError);
+    this.stream.off("close", this.handleClosed);
+    this.stream.off("end", this.handleClosed);
+    this.stream.off("finish", this.handleClosed);
+    this.stream.off("data", this.handleData);
+
+    this.stream.end();
+
+    delete this.stream;
+
+    super.close(error);
+  }
+
+  send(frame: Frame): void {
+    if (this.done) {
+      return;
+    }
+
+    this.frameObserver?.(frame, "outbound", Date.now());
+
+    const buffer = serializeFrameWithLength(frame);
+
+    this.stream.write(buffer);
+  }
+
+  /**
+   * Handles close event from the underlying stream. Unlike sockets, streams do
+   * not tell whether they are closed due to an error, hence the error
+   * received last is used, if any.
+   * @private
+   */
+  private handleClosed = (): void => {
+    const message = this.error
+      ? `StreamDuplexConnection: ${this.error.message}`
+      : "StreamDuplexConnection: Stream closed unexpectedly.";
+    this.close(new Error(message));
+  };
+
+  /**
+   * Handles error events from the underlying stream. `handleClosed` is expected to be called
+   * immediately following `handleError`.
+   * @param error
+   * @private
+   */
+  private handleError = (error: Error): void => {
+    this.error = error;
+  };
+
+  private handleData = (chunks: Buffer): void => {
+    try {
+      // Combine partial frame data from previous chunks with the next chunk,
+      // then extract any complete frames plus any remaining data.
+      const buffer = Buffer.concat([this.remainingBuffer, chunks]);
+      let lastOffset = 0;
+      const frames = this.deserializer.deserializeFrames(buffer);
+      for (const [frame, offset] of frames) {
+        lastOffset = offset;
+        this.frameObserver?.(frame, "inbound", Date.now());
+        this.multiplexerDemultiplexer.handle(frame);
+      }
+      this.remainingBuffer = buffer.slice(lastOffset, buffer.length);
+    } catch (error) {
+      this.close(error);
+    }
+  };
+
+  /**
+   * Accepts a connection over the given stream once its first frame is
+   * received, which is passed to the `connectionAcceptor`.
+   */
+  static create(
+    stream: Duplex,
+    connectionAcceptor: (
+      frame: Frame,
+      connection: DuplexConnection
+    ) => Promise<void>,
+    multiplexerDemultiplexerFactory: (
+      frame: Frame,
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    frameObserver?: FrameObserver,
+    connectionInfo?: ConnectionInfo
+  ): void {
+    const deserializer = new Deserializer();
+    let remainingBuffer = Buffer.allocUnsafe(0);
+
+    // TODO: timeout on no data?
+    const firstDataListener = async (chunks: Buffer) => {
+      // the first frame may be split across several chunks
+      const buffer = Buffer.concat([remainingBuffer, chunks]);
+      const next = deserializer.deserializeFrames(buffer).next();
+      if (next.done) {
+        remainingBuffer = buffer;
+        return;
+      }
+      stream.off("data", firstDataListener);
+
+      const [frame, offset] = next.value;
+      frameObserver?.(frame, "inbound", Date.now());
+      const connection = new StreamDuplexConnection(
+        stream,
+        deserializer,
+        (outbound) => multiplexerDemultiplexerFactory(frame, outbound),
+        frameObserver,
+        connectionInfo
+      );
+      if (connection.done) {
+        return;
+      }
+      try {
+        stream.pause();
+        await connectionAcceptor(frame, connection);
+        stream.resume();
+        if (offset < buffer.length) {
+          connection.handleData(buffer.slice(offset, buffer.length));
+        }
+      } catch (error) {
+        connection.close(error);
+      }
+    };
+
+    stream.on("data", firstDataListener);
+  }
+}
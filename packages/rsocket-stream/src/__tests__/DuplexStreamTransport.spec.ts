@@ -0,0 +1,132 @@
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { Duplex } from "stream";
+import {
+  Closeable,
+  ExtensionRegistry,
+  Payload,
+  RSocket,
+  RSocketConnector,
+  RSocketServer,
+} from "rsocket-core";
+import { DuplexStreamClientTransport } from "../DuplexStreamClientTransport";
+import { DuplexStreamServerTransport } from "../DuplexStreamServerTransport";
+
+describe("DuplexStreamTransport", () => {
+  const socketPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "rsocket-stream-")),
+    "rsocket.sock"
+  );
+  let netServer: net.Server;
+  let server: Closeable;
+  let client: RSocket | undefined;
+  let extensionHandler: jest.Mock;
+
+  beforeEach(async () => {
+    extensionHandler = jest.fn();
+    const transport = new DuplexStreamServerTransport();
+    netServer = net.createServer((socket) =>
+      transport.accept(socket, { transport: "unix" })
+    );
+    await new Promise<void>((resolve) => netServer.listen(socketPath, resolve));
+    server = await new RSocketServer({
+      transport,
+      extensions: new ExtensionRegistry().register(7, extensionHandler),
+      acceptor: {
+        accept: async (setup, requester, connectionInfo) => ({
+          requestResponse: (payload, responderStream) => {
+            responderStream.onNext(
+              {
+                data: Buffer.concat([
+                  payload.data,
+                  Buffer.from(` over ${connectionInfo.transport}`),
+                ]),
+              },
+              true
+            );
+            return {
+              cancel() {},
+              onExtension() {},
+            };
+          },
+        }),
+      },
+    }).bind();
+  });
+
+  afterEach(async () => {
+    client?.close();
+    client = undefined;
+    server.close();
+    await new Promise((resolve) => netServer.close(resolve));
+  });
+
+  function requestResponse(rsocket: RSocket, payload: Payload) {
+    return new Promise<Payload>((resolve, reject) =>
+      rsocket.requestResponse(payload, {
+        onNext: (response) => resolve(response),
+        onError: reject,
+        onComplete() {},
+        onExtension() {},
+      })
+    );
+  }
+
+  it("connects over the created stream", async () => {
+    client = await new RSocketConnector({
+      transport: new DuplexStreamClientTransport({
+        streamCreator: () => net.connect({ path: socketPath }),
+      }),
+    }).connect();
+
+    const response = await requestResponse(client, {
+      data: Buffer.from("hello"),
+    });
+
+    expect(response.data.toString()).toBe("hello over unix");
+  });
+
+  it("sends the connection level extensions over the stream", async () => {
+    client = await new RSocketConnector({
+      transport: new DuplexStreamClientTransport({
+        streamCreator: () => net.connect({ path: socketPath }),
+      }),
+    }).connect();
+
+    client.onExtension(8, Buffer.from("ignored"), true);
+    client.onExtension(7, Buffer.from("hello"), false);
+
+    const response = await requestResponse(client, {
+      data: Buffer.from("hello"),
+    });
+    expect(response.data.toString()).toBe("hello over unix");
+    expect(extensionHandler).toHaveBeenCalledTimes(1);
+    expect(extensionHandler).toHaveBeenCalledWith(Buffer.from("hello"), false);
+  });
+
+  it("destroys the streams accepted once closed", async () => {
+    const transport = new DuplexStreamServerTransport();
+    const closeable = await new RSocketServer({
+      transport,
+      acceptor: { accept: async () => ({}) },
+    }).bind();
+    const stream = new Duplex({ read() {}, write() {} });
+
+    closeable.close();
+    transport.accept(stream);
+
+    expect(stream.destroyed).toBe(true);
+  });
+
+  it("rejects binding twice", async () => {
+    const transport = new DuplexStreamServerTransport();
+    const acceptor = { accept: async () => ({}) };
+    await new RSocketServer({ transport, acceptor }).bind();
+
+    await expect(
+      new RSocketServer({ transport, acceptor }).bind()
+    ).rejects.toThrow("DuplexStreamServerTransport is already bound");
+  });
+});
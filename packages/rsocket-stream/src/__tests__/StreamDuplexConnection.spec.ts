@@ -2,6 +2,7 @@ import * as net from "net";
 import sinon from "sinon";
 import { mock } from "jest-mock-extended";
 import EventEmitter from "events";
+import { Duplex } from "stream";
 import {
   Demultiplexer,
   Deserializer,
@@ -13,9 +14,9 @@ import {
   SetupFrame,
 } from "rsocket-core";
 import { MockSocket } from "../__mocks__/net";
-import { TcpDuplexConnection } from "../TcpDuplexConnection";
+import { StreamDuplexConnection } from "../StreamDuplexConnection";
 
-describe("TcpDuplexConnection", function () {
+describe("StreamDuplexConnection", function () {
   describe("when closed", () => {
     it("removes listeners from the underlying socket event emitter", async () => {
       // arrange
@@ -23,7 +24,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -32,6 +33,8 @@ describe("TcpDuplexConnection", function () {
       connection.close();
 
       expect(socketStub.off.calledWith("close")).toBe(true);
+      expect(socketStub.off.calledWith("end")).toBe(true);
+      expect(socketStub.off.calledWith("finish")).toBe(true);
       expect(socketStub.off.calledWith("error")).toBe(true);
       expect(socketStub.off.calledWith("data")).toBe(true);
     });
@@ -42,7 +45,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -59,7 +62,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -76,7 +79,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -95,7 +98,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -115,7 +118,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -130,12 +133,12 @@ describe("TcpDuplexConnection", function () {
       expect(onCloseCallback).toBeCalledWith(error);
     });
 
-    it("the onClose callback is called with an error when the socket is closed unexpectedly", async () => {
+    it("the onClose callback is called with an error when the stream is closed unexpectedly", async () => {
       const socket = new net.Socket();
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socket,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -147,23 +150,45 @@ describe("TcpDuplexConnection", function () {
 
       expect(onCloseCallback).toBeCalledTimes(1);
       expect(onCloseCallback).toHaveBeenCalledWith(
-        new Error("TcpDuplexConnection: Socket closed unexpectedly.")
+        new Error("StreamDuplexConnection: Stream closed unexpectedly.")
       );
     });
 
-    it("the onClose callback is called with an error when the socket is closed with an error", async () => {
+    it("the onClose callback is called with an error when the stream ends", async () => {
+      const stream = new Duplex({ read() {}, write() {} });
+      const multiplexerDemultiplexer = mock<
+        Multiplexer & Demultiplexer & FrameHandler
+      >();
+      const connection = new StreamDuplexConnection(
+        stream,
+        new Deserializer(),
+        () => multiplexerDemultiplexer
+      );
+      const onCloseCallback = jest.fn();
+
+      connection.onClose(onCloseCallback);
+      stream.push(null);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(onCloseCallback).toBeCalledTimes(1);
+      expect(onCloseCallback).toHaveBeenCalledWith(
+        new Error("StreamDuplexConnection: Stream closed unexpectedly.")
+      );
+    });
+
+    it("the onClose callback is called with an error when the stream is closed with an error", async () => {
       const socket = new net.Socket();
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socket,
         new Deserializer(),
         () => multiplexerDemultiplexer
       );
       const onCloseCallback = jest.fn();
       const error = new Error("Test error 1");
-      const expectedError = new Error("TcpDuplexConnection: Test error 1");
+      const expectedError = new Error("StreamDuplexConnection: Test error 1");
 
       connection.onClose(onCloseCallback);
       socket.emit("error", error);
@@ -196,7 +221,7 @@ describe("TcpDuplexConnection", function () {
     it("serializes and writes the given frame to the underlying socket", async () => {
       // arrange
       const socketStub = mock<net.Socket>();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -215,7 +240,7 @@ describe("TcpDuplexConnection", function () {
       const multiplexerDemultiplexer = mock<
         Multiplexer & Demultiplexer & FrameHandler
       >();
-      const connection = new TcpDuplexConnection(
+      const connection = new StreamDuplexConnection(
         socketStub,
         new Deserializer(),
         () => multiplexerDemultiplexer
@@ -251,7 +276,7 @@ describe("TcpDuplexConnection", function () {
         // arrange
         const handler = mock<Multiplexer & Demultiplexer & FrameHandler>();
         const socketStub = new EventEmitter() as net.Socket;
-        const connection = new TcpDuplexConnection(
+        const connection = new StreamDuplexConnection(
           socketStub,
           new Deserializer(),
           () => handler
@@ -276,7 +301,7 @@ describe("TcpDuplexConnection", function () {
           Multiplexer & Demultiplexer & FrameHandler
         >();
         const socketStub = new EventEmitter() as net.Socket;
-        const connection = new TcpDuplexConnection(
+        const connection = new StreamDuplexConnection(
           socketStub,
           new Deserializer(),
           () => multiplexerDemultiplexer
@@ -321,7 +346,7 @@ describe("TcpDuplexConnection", function () {
           Multiplexer & Demultiplexer & FrameHandler
         >();
         const deserializerStub = mock<Deserializer>();
-        const connection = new TcpDuplexConnection(
+        const connection = new StreamDuplexConnection(
           socketStub as unknown as net.Socket,
           deserializerStub,
           () => multiplexerDemultiplexer
@@ -342,4 +367,118 @@ describe("TcpDuplexConnection", function () {
       });
     });
   });
+
+  describe("frame observer", () => {
+    const setupFrame = {
+      type: FrameTypes.SETUP,
+      dataMimeType: "application/octet-stream",
+      metadataMimeType: "application/octet-stream",
+      keepAlive: 60000,
+      lifetime: 300000,
+      metadata: undefined,
+      data: Buffer.from("hello world"),
+      resumeToken: null,
+      streamId: 0,
+      majorVersion: 1,
+      minorVersion: 0,
+      flags: Flags.NONE,
+    } as SetupFrame;
+
+    it("observes the sent and received frames", () => {
+      // arrange
+      const frameObserver = jest.fn();
+      const socketStub = new EventEmitter() as net.Socket;
+      socketStub.write = jest.fn();
+      const connection = new StreamDuplexConnection(
+        socketStub,
+        new Deserializer(),
+        () => mock<Multiplexer & Demultiplexer & FrameHandler>(),
+        frameObserver
+      );
+
+      // act
+      connection.send(setupFrame);
+      socketStub.emit("data", serializeFrameWithLength(setupFrame));
+
+      // assert
+      expect(frameObserver).toBeCalledTimes(2);
+      expect(frameObserver).toHaveBeenNthCalledWith(
+        1,
+        setupFrame,
+        "outbound",
+        expect.any(Number)
+      );
+      expect(frameObserver).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: FrameTypes.SETUP,
+          data: Buffer.from("hello world"),
+        }),
+        "inbound",
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe("create()", () => {
+    const setupFrame = {
+      type: FrameTypes.SETUP,
+      dataMimeType: "application/octet-stream",
+      metadataMimeType: "application/octet-stream",
+      keepAlive: 60000,
+      lifetime: 300000,
+      metadata: undefined,
+      data: Buffer.from("hello world"),
+      resumeToken: null,
+      streamId: 0,
+      majorVersion: 1,
+      minorVersion: 0,
+      flags: Flags.NONE,
+    } as SetupFrame;
+
+    it("accepts the connection once the first frame is received", async () => {
+      // arrange
+      const stream = new Duplex({
+        read() {},
+        write(chunk, encoding, callback) {
+          callback();
+        },
+      });
+      const multiplexerDemultiplexer = mock<
+        Multiplexer & Demultiplexer & FrameHandler
+      >();
+      const connectionAcceptor = jest.fn(async () => {});
+      const buffer = serializeFrameWithLength(setupFrame);
+
+      // act
+      StreamDuplexConnection.create(
+        stream,
+        connectionAcceptor,
+        () => multiplexerDemultiplexer,
+        undefined,
+        { transport: "stream" }
+      );
+      stream.push(buffer.slice(0, 10));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // assert
+      expect(connectionAcceptor).not.toBeCalled();
+
+      // act
+      stream.push(Buffer.concat([buffer.slice(10), buffer]));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // assert
+      expect(connectionAcceptor).toBeCalledWith(
+        expect.objectContaining({
+          type: FrameTypes.SETUP,
+          data: Buffer.from("hello world"),
+        }),
+        expect.objectContaining({
+          connectionInfo: { transport: "stream" },
+        })
+      );
+      expect(multiplexerDemultiplexer.handle).toBeCalledTimes(1);
+    });
+  });
 });
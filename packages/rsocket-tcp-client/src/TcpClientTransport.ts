@@ -21,11 +21,13 @@ import {
   Deserializer,
   DuplexConnection,
   FrameHandler,
+  FrameObserver,
+  logFrames,
   Multiplexer,
   Outbound,
 } from "rsocket-core";
 import net, { SocketConnectOpts } from "net";
-import { TcpDuplexConnection } from "./TcpDuplexConnection";
+import { socketConnectionInfo, StreamDuplexConnection } from "rsocket-stream";
 
 type TcpSocketCreator = (
   options: SocketConnectOpts,
@@ -39,16 +41,27 @@ type TcpClientOptionsSocketFactory = (
 type TcpClientOptions = {
   connectionOptions: net.NetConnectOpts;
   socketCreator?: TcpClientOptionsSocketFactory;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
 };
 
 export class TcpClientTransport implements ClientTransport {
   private readonly connectionOptions: net.NetConnectOpts;
   private readonly socketCreator: TcpSocketCreator;
+  private readonly frameObserver?: FrameObserver;
 
   constructor(options: TcpClientOptions) {
     this.connectionOptions = options.connectionOptions;
     this.socketCreator =
       options.socketCreator ?? ((options) => net.connect(options));
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
   }
 
   connect(
@@ -64,10 +77,12 @@ export class TcpClientTransport implements ClientTransport {
         socket.removeListener("close", errorListener);
         socket.removeListener("end", errorListener);
         resolve(
-          new TcpDuplexConnection(
+          new StreamDuplexConnection(
             socket,
             new Deserializer(),
-            multiplexerDemultiplexerFactory
+            multiplexerDemultiplexerFactory,
+            this.frameObserver,
+            socketConnectionInfo(socket)
           )
         );
       };
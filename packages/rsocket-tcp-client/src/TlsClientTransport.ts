@@ -0,0 +1,105 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ClientTransport,
+  Closeable,
+  Demultiplexer,
+  Deserializer,
+  DuplexConnection,
+  FrameHandler,
+  FrameObserver,
+  logFrames,
+  Multiplexer,
+  Outbound,
+} from "rsocket-core";
+import tls from "tls";
+import { socketConnectionInfo, StreamDuplexConnection } from "rsocket-stream";
+
+type TlsSocketCreator = (options: tls.ConnectionOptions) => tls.TLSSocket;
+
+type TlsClientOptions = {
+  /**
+   * Options of `tls.connect`, e.g. `ca` to trust a self-signed server
+   * certificate, `cert` and `key` for mutual TLS, `servername` for SNI and
+   * `ALPNProtocols`.
+   */
+  connectionOptions: tls.ConnectionOptions;
+  socketCreator?: TlsSocketCreator;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
+};
+
+export class TlsClientTransport implements ClientTransport {
+  private readonly connectionOptions: tls.ConnectionOptions;
+  private readonly socketCreator: TlsSocketCreator;
+  private readonly frameObserver?: FrameObserver;
+
+  constructor(options: TlsClientOptions) {
+    this.connectionOptions = options.connectionOptions;
+    this.socketCreator =
+      options.socketCreator ?? ((options) => tls.connect(options));
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
+  }
+
+  connect(
+    multiplexerDemultiplexerFactory: (
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler
+  ): Promise<DuplexConnection> {
+    return new Promise((resolve, reject) => {
+      let socket: tls.TLSSocket;
+
+      // frames can only be sent once the TLS handshake is completed, hence
+      // "secureConnect" rather than "connect"
+      const openListener = () => {
+        socket.removeListener("error", errorListener);
+        socket.removeListener("close", errorListener);
+        socket.removeListener("end", errorListener);
+        resolve(
+          new StreamDuplexConnection(
+            socket,
+            new Deserializer(),
+            multiplexerDemultiplexerFactory,
+            this.frameObserver,
+            socketConnectionInfo(socket)
+          )
+        );
+      };
+
+      const errorListener = (error: Error) => {
+        socket.removeListener("error", errorListener);
+        socket.removeListener("close", errorListener);
+        socket.removeListener("end", errorListener);
+        reject(error);
+      };
+
+      socket = this.socketCreator(this.connectionOptions);
+
+      socket.once("secureConnect", openListener);
+      socket.once("error", errorListener);
+      socket.once("close", errorListener);
+      socket.once("end", errorListener);
+    });
+  }
+}
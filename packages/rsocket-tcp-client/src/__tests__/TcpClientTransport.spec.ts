@@ -1,5 +1,5 @@
 import { TcpClientTransport } from "../index";
-import { TcpDuplexConnection } from "../TcpDuplexConnection";
+import { StreamDuplexConnection } from "rsocket-stream";
 import * as net from "net";
 import sinon from "sinon";
 import EventEmitter from "events";
@@ -36,7 +36,7 @@ describe("TcpClientTransport", function () {
 
       // assert
       await expect(connectionPromise).resolves.toBeInstanceOf(
-        TcpDuplexConnection
+        StreamDuplexConnection
       );
     });
 
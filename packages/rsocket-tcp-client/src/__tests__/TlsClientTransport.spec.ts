@@ -0,0 +1,191 @@
+import { execSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import tls from "tls";
+import {
+  Demultiplexer,
+  deserializeFrameWithLength,
+  Flags,
+  FrameHandler,
+  FrameTypes,
+  Multiplexer,
+  SetupFrame,
+} from "rsocket-core";
+import { mock } from "jest-mock-extended";
+import { StreamDuplexConnection } from "rsocket-stream";
+import { TlsClientTransport } from "../TlsClientTransport";
+
+type Certificates = {
+  ca: string;
+  serverCert: string;
+  serverKey: string;
+  clientCert: string;
+  clientKey: string;
+};
+
+// self-signed CA issuing the server and the client certificates
+function generateCertificates(): Certificates {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rsocket-tls-"));
+  const openssl = (args: string) =>
+    execSync(`openssl ${args}`, { cwd: dir, stdio: "pipe" });
+  const newKey = "-newkey ec -pkeyopt ec_paramgen_curve:prime256v1 -nodes";
+  const read = (file: string) =>
+    fs.readFileSync(path.join(dir, file)).toString();
+
+  try {
+    openssl(
+      `req -x509 ${newKey} -keyout ca.key -out ca.crt -days 1 -subj /CN=ca`
+    );
+    fs.writeFileSync(
+      path.join(dir, "server.ext"),
+      "subjectAltName=DNS:localhost,IP:127.0.0.1\n"
+    );
+    for (const [name, cn] of [
+      ["server", "localhost"],
+      ["client", "client"],
+    ]) {
+      openssl(
+        `req ${newKey} -keyout ${name}.key -out ${name}.csr -subj /CN=${cn}`
+      );
+      openssl(
+        `x509 -req -in ${name}.csr -CA ca.crt -CAkey ca.key -CAcreateserial -days 1 -out ${name}.crt` +
+          (name === "server" ? " -extfile server.ext" : "")
+      );
+    }
+
+    return {
+      ca: read("ca.crt"),
+      serverCert: read("server.crt"),
+      serverKey: read("server.key"),
+      clientCert: read("client.crt"),
+      clientKey: read("client.key"),
+    };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const setupFrame: SetupFrame = {
+  type: FrameTypes.SETUP,
+  dataMimeType: "application/octet-stream",
+  metadataMimeType: "application/octet-stream",
+  keepAlive: 60000,
+  lifetime: 300000,
+  metadata: undefined,
+  data: undefined,
+  resumeToken: null,
+  streamId: 0,
+  majorVersion: 1,
+  minorVersion: 0,
+  flags: Flags.NONE,
+};
+
+describe("TlsClientTransport", () => {
+  let certificates: Certificates;
+  let server: tls.Server;
+  let port: number;
+  let accepted: Promise<tls.TLSSocket>;
+
+  beforeAll(() => {
+    certificates = generateCertificates();
+  });
+
+  async function listen(serverOptions: tls.TlsOptions = {}) {
+    server = tls.createServer({
+      cert: certificates.serverCert,
+      key: certificates.serverKey,
+      ...serverOptions,
+    });
+    accepted = new Promise((resolve) =>
+      server.once("secureConnection", resolve)
+    );
+    await new Promise<void>((resolve) =>
+      server.listen({ host: "127.0.0.1", port: 0 }, resolve)
+    );
+    port = (server.address() as { port: number }).port;
+  }
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function connect(connectionOptions: tls.ConnectionOptions) {
+    return new TlsClientTransport({
+      connectionOptions: { host: "127.0.0.1", port, ...connectionOptions },
+    }).connect(() => mock<Multiplexer & Demultiplexer & FrameHandler>());
+  }
+
+  it("sends the frames once the TLS handshake is completed", async () => {
+    let servername: string;
+    await listen({
+      ALPNProtocols: ["rsocket"],
+      SNICallback: (name, callback) => {
+        servername = name;
+        callback(null, undefined);
+      },
+    });
+
+    const connection = await connect({
+      servername: "localhost",
+      ca: certificates.ca,
+      ALPNProtocols: ["rsocket"],
+    });
+    const socket = await accepted;
+    const received = new Promise<Buffer>((resolve) =>
+      socket.once("data", resolve)
+    );
+    (connection as StreamDuplexConnection).send(setupFrame);
+
+    expect(connection).toBeInstanceOf(StreamDuplexConnection);
+    expect(servername).toBe("localhost");
+    expect(socket.alpnProtocol).toBe("rsocket");
+    expect(connection.connectionInfo).toMatchObject({
+      transport: "tls",
+      remoteAddress: "127.0.0.1",
+      remotePort: port,
+      tls: { authorized: true },
+    });
+    expect(connection.connectionInfo.tls.peerCertificate.subject.CN).toBe(
+      "localhost"
+    );
+    expect(deserializeFrameWithLength(await received)).toMatchObject({
+      type: FrameTypes.SETUP,
+      keepAlive: 60000,
+      lifetime: 300000,
+    });
+
+    connection.close();
+    socket.destroy();
+  });
+
+  it("authenticates with the client certificate with mutual TLS", async () => {
+    await listen({
+      ca: certificates.ca,
+      requestCert: true,
+      rejectUnauthorized: true,
+    });
+
+    const connection = await connect({
+      servername: "localhost",
+      ca: certificates.ca,
+      cert: certificates.clientCert,
+      key: certificates.clientKey,
+    });
+    const socket = await accepted;
+
+    expect(socket.getPeerCertificate().subject.CN).toBe("client");
+
+    connection.close();
+    socket.destroy();
+  });
+
+  it("rejects if the server certificate is not trusted", async () => {
+    await listen();
+    server.on("tlsClientError", () => {});
+
+    await expect(connect({ servername: "localhost" })).rejects.toThrow(
+      "unable to verify the first certificate"
+    );
+  });
+});
@@ -17,3 +17,4 @@
 "use strict";
 
 export * from "./TcpClientTransport";
+export * from "./TlsClientTransport";
@@ -21,12 +21,14 @@ import {
   DuplexConnection,
   Frame,
   FrameHandler,
+  FrameObserver,
+  logFrames,
   Multiplexer,
   Outbound,
   ServerTransport,
 } from "rsocket-core";
 import net from "net";
-import { TcpDuplexConnection } from "./TcpDuplexConnection";
+import { socketConnectionInfo, StreamDuplexConnection } from "rsocket-stream";
 
 type TcpServerCreator = (options: net.ServerOpts) => net.Server;
 
@@ -36,18 +38,29 @@ type TcpServerOptions = {
   serverOptions?: net.ServerOpts;
   listenOptions: net.ListenOptions;
   socketCreator?: TcpServerOptionsSocketFactory;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
 };
 
 export class TcpServerTransport implements ServerTransport {
   private readonly serverOptions: net.ServerOpts | undefined | null;
   private readonly listenOptions: net.ListenOptions;
   private readonly serverCreator: TcpServerCreator;
+  private readonly frameObserver?: FrameObserver;
 
   constructor(options: TcpServerOptions) {
     this.serverOptions = options.serverOptions;
     this.listenOptions = options.listenOptions;
     this.serverCreator =
       options.socketCreator ?? ((options) => new net.Server(options));
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
   }
 
   bind(
@@ -72,10 +85,12 @@ export class TcpServerTransport implements ServerTransport {
       socketServer.addListener("listening", () => {
         const serverCloseable = new ServerCloseable(socketServer);
         const connectionListener = (socket: net.Socket) => {
-          TcpDuplexConnection.create(
+          StreamDuplexConnection.create(
             socket,
             connectionAcceptor,
-            multiplexerDemultiplexerFactory
+            multiplexerDemultiplexerFactory,
+            this.frameObserver,
+            socketConnectionInfo(socket)
           );
         };
         const closeListener = (error?: Error) => {
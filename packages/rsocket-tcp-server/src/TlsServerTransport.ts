@@ -0,0 +1,134 @@
+/*
+ * Copyright 2021-2022 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Closeable,
+  Deferred,
+  Demultiplexer,
+  DuplexConnection,
+  Frame,
+  FrameHandler,
+  FrameObserver,
+  logFrames,
+  Multiplexer,
+  Outbound,
+  ServerTransport,
+} from "rsocket-core";
+import net from "net";
+import tls from "tls";
+import { socketConnectionInfo, StreamDuplexConnection } from "rsocket-stream";
+
+type TlsServerCreator = (options: tls.TlsOptions) => tls.Server;
+
+type TlsServerOptions = {
+  /**
+   * Options of `tls.createServer`, e.g. `cert` and `key`, `requestCert` and
+   * `ca` for mutual TLS, `SNICallback` and `ALPNProtocols`.
+   */
+  serverOptions: tls.TlsOptions;
+  listenOptions: net.ListenOptions;
+  socketCreator?: TlsServerCreator;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
+  debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
+};
+
+export class TlsServerTransport implements ServerTransport {
+  private readonly serverOptions: tls.TlsOptions;
+  private readonly listenOptions: net.ListenOptions;
+  private readonly serverCreator: TlsServerCreator;
+  private readonly frameObserver?: FrameObserver;
+
+  constructor(options: TlsServerOptions) {
+    this.serverOptions = options.serverOptions;
+    this.listenOptions = options.listenOptions;
+    this.serverCreator =
+      options.socketCreator ?? ((options) => tls.createServer(options));
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
+  }
+
+  bind(
+    connectionAcceptor: (
+      frame: Frame,
+      connection: DuplexConnection
+    ) => Promise<void>,
+    multiplexerDemultiplexerFactory: (
+      frame: Frame,
+      outbound: Outbound & Closeable
+    ) => Multiplexer & Demultiplexer & FrameHandler
+  ): Promise<Closeable> {
+    return new Promise((resolve, reject) => {
+      const socketServer = this.serverCreator(this.serverOptions);
+
+      const earlyCloseListener = (error?: Error) => {
+        reject(error);
+      };
+
+      socketServer.addListener("close", earlyCloseListener);
+      socketServer.addListener("error", earlyCloseListener);
+      socketServer.addListener("listening", () => {
+        const serverCloseable = new ServerCloseable(socketServer);
+        // "connection" is emitted before the TLS handshake, whereas
+        // "secureConnection" is emitted once the peer is authenticated
+        const connectionListener = (socket: tls.TLSSocket) => {
+          StreamDuplexConnection.create(
+            socket,
+            connectionAcceptor,
+            multiplexerDemultiplexerFactory,
+            this.frameObserver,
+            socketConnectionInfo(socket)
+          );
+        };
+        const closeListener = (error?: Error) => {
+          serverCloseable.close(error);
+        };
+
+        socketServer.addListener("secureConnection", connectionListener);
+        socketServer.removeListener("close", earlyCloseListener);
+        socketServer.removeListener("error", earlyCloseListener);
+
+        socketServer.addListener("close", closeListener);
+        socketServer.addListener("error", closeListener);
+
+        resolve(serverCloseable);
+      });
+
+      socketServer.listen(this.listenOptions);
+    });
+  }
+}
+
+class ServerCloseable extends Deferred {
+  constructor(private readonly server: net.Server) {
+    super();
+  }
+
+  close(error?: Error) {
+    if (this.done) {
+      super.close(error);
+      return;
+    }
+
+    this.server.close();
+    super.close();
+  }
+}
@@ -0,0 +1,218 @@
+import { execSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import tls from "tls";
+import {
+  Demultiplexer,
+  DuplexConnection,
+  Flags,
+  Frame,
+  FrameHandler,
+  FrameTypes,
+  Multiplexer,
+  serializeFrameWithLength,
+  SetupFrame,
+} from "rsocket-core";
+import { mock } from "jest-mock-extended";
+import { TlsServerTransport } from "../TlsServerTransport";
+
+type Certificates = {
+  ca: string;
+  serverCert: string;
+  serverKey: string;
+  clientCert: string;
+  clientKey: string;
+};
+
+// self-signed CA issuing the server and the client certificates
+function generateCertificates(): Certificates {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rsocket-tls-"));
+  const openssl = (args: string) =>
+    execSync(`openssl ${args}`, { cwd: dir, stdio: "pipe" });
+  const newKey = "-newkey ec -pkeyopt ec_paramgen_curve:prime256v1 -nodes";
+  const read = (file: string) =>
+    fs.readFileSync(path.join(dir, file)).toString();
+
+  try {
+    openssl(
+      `req -x509 ${newKey} -keyout ca.key -out ca.crt -days 1 -subj /CN=ca`
+    );
+    fs.writeFileSync(
+      path.join(dir, "server.ext"),
+      "subjectAltName=DNS:localhost,IP:127.0.0.1\n"
+    );
+    for (const [name, cn] of [
+      ["server", "localhost"],
+      ["client", "client"],
+    ]) {
+      openssl(
+        `req ${newKey} -keyout ${name}.key -out ${name}.csr -subj /CN=${cn}`
+      );
+      openssl(
+        `x509 -req -in ${name}.csr -CA ca.crt -CAkey ca.key -CAcreateserial -days 1 -out ${name}.crt` +
+          (name === "server" ? " -extfile server.ext" : "")
+      );
+    }
+
+    return {
+      ca: read("ca.crt"),
+      serverCert: read("server.crt"),
+      serverKey: read("server.key"),
+      clientCert: read("client.crt"),
+      clientKey: read("client.key"),
+    };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const setupFrame: SetupFrame = {
+  type: FrameTypes.SETUP,
+  dataMimeType: "application/octet-stream",
+  metadataMimeType: "application/octet-stream",
+  keepAlive: 60000,
+  lifetime: 300000,
+  metadata: undefined,
+  data: undefined,
+  resumeToken: null,
+  streamId: 0,
+  majorVersion: 1,
+  minorVersion: 0,
+  flags: Flags.NONE,
+};
+
+describe("TlsServerTransport", () => {
+  let certificates: Certificates;
+
+  beforeAll(() => {
+    certificates = generateCertificates();
+  });
+
+  async function bind(
+    serverOptions: tls.TlsOptions,
+    connectionAcceptor: (
+      frame: Frame,
+      connection: DuplexConnection
+    ) => Promise<void>
+  ) {
+    let server: tls.Server;
+    const transport = new TlsServerTransport({
+      serverOptions: {
+        cert: certificates.serverCert,
+        key: certificates.serverKey,
+        ...serverOptions,
+      },
+      listenOptions: { host: "127.0.0.1", port: 0 },
+      socketCreator: (options) => (server = tls.createServer(options)),
+    });
+    const closeable = await transport.bind(connectionAcceptor, () =>
+      mock<Multiplexer & Demultiplexer & FrameHandler>()
+    );
+    const port = (server.address() as { port: number }).port;
+    const close = () => {
+      closeable.close();
+      return new Promise((resolve) => server.once("close", resolve));
+    };
+    return { close, port };
+  }
+
+  it("accepts the connections once the TLS handshake is completed", async () => {
+    let accept: (value: [Frame, DuplexConnection]) => void;
+    const accepted = new Promise<[Frame, DuplexConnection]>(
+      (resolve) => (accept = resolve)
+    );
+    const { close, port } = await bind(
+      { ALPNProtocols: ["rsocket"] },
+      async (frame, connection) => accept([frame, connection])
+    );
+
+    const socket = tls.connect({
+      host: "127.0.0.1",
+      port,
+      servername: "localhost",
+      ca: certificates.ca,
+      ALPNProtocols: ["rsocket"],
+    });
+    socket.once("secureConnect", () =>
+      socket.write(serializeFrameWithLength(setupFrame))
+    );
+
+    const [frame, connection] = await accepted;
+
+    expect(frame).toMatchObject({ type: FrameTypes.SETUP });
+    expect(socket.alpnProtocol).toBe("rsocket");
+    expect(connection.connectionInfo).toMatchObject({
+      transport: "tls",
+      remoteAddress: "127.0.0.1",
+      remotePort: socket.localPort,
+    });
+    expect(connection.connectionInfo.tls.peerCertificate).toBeUndefined();
+
+    connection.close();
+    await new Promise((resolve) => socket.once("close", resolve));
+    await close();
+  });
+
+  it("exposes the client certificate with mutual TLS", async () => {
+    let accept: (connection: DuplexConnection) => void;
+    const accepted = new Promise<DuplexConnection>(
+      (resolve) => (accept = resolve)
+    );
+    const { close, port } = await bind(
+      { ca: certificates.ca, requestCert: true, rejectUnauthorized: true },
+      async (frame, connection) => accept(connection)
+    );
+
+    const socket = tls.connect({
+      host: "127.0.0.1",
+      port,
+      servername: "localhost",
+      ca: certificates.ca,
+      cert: certificates.clientCert,
+      key: certificates.clientKey,
+    });
+    socket.once("secureConnect", () =>
+      socket.write(serializeFrameWithLength(setupFrame))
+    );
+
+    const connection = await accepted;
+
+    expect(connection.connectionInfo.tls).toMatchObject({
+      protocol: "TLSv1.3",
+      authorized: true,
+    });
+    expect(connection.connectionInfo.tls.peerCertificate.subject.CN).toBe(
+      "client"
+    );
+
+    connection.close();
+    await new Promise((resolve) => socket.once("close", resolve));
+    await close();
+  });
+
+  it("rejects the clients without a certificate with mutual TLS", async () => {
+    const connectionAcceptor = jest.fn(async () => {});
+    const { close, port } = await bind(
+      { ca: certificates.ca, requestCert: true, rejectUnauthorized: true },
+      connectionAcceptor
+    );
+
+    const socket = tls.connect({
+      host: "127.0.0.1",
+      port,
+      servername: "localhost",
+      ca: certificates.ca,
+    });
+    socket.once("secureConnect", () =>
+      socket.write(serializeFrameWithLength(setupFrame))
+    );
+    socket.on("error", () => {});
+
+    await new Promise((resolve) => socket.once("close", resolve));
+
+    expect(connectionAcceptor).not.toBeCalled();
+
+    await close();
+  });
+});
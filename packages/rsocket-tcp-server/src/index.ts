@@ -17,3 +17,4 @@
 "use strict";
 
 export * from "./TcpServerTransport";
+export * from "./TlsServerTransport";
@@ -21,6 +21,8 @@ import {
   Deserializer,
   DuplexConnection,
   FrameHandler,
+  FrameObserver,
+  logFrames,
   Multiplexer,
   Outbound,
 } from "rsocket-core";
@@ -29,16 +31,26 @@ import { WebsocketDuplexConnection } from "./WebsocketDuplexConnection";
 export type ClientOptions = {
   url: string;
   wsCreator?: (url: string) => WebSocket;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
   debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
 };
 
 export class WebsocketClientTransport implements ClientTransport {
   private readonly url: string;
   private readonly factory: (url: string) => WebSocket;
+  private readonly frameObserver?: FrameObserver;
 
   constructor(options: ClientOptions) {
     this.url = options.url;
     this.factory = options.wsCreator ?? ((url: string) => new WebSocket(url));
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
   }
 
   connect(
@@ -58,7 +70,8 @@ export class WebsocketClientTransport implements ClientTransport {
           new WebsocketDuplexConnection(
             websocket,
             new Deserializer(),
-            multiplexerDemultiplexerFactory
+            multiplexerDemultiplexerFactory,
+            this.frameObserver
           )
         );
       };
@@ -16,12 +16,14 @@
 
 import {
   Closeable,
+  ConnectionInfo,
   Deferred,
   Demultiplexer,
   Deserializer,
   DuplexConnection,
   Frame,
   FrameHandler,
+  FrameObserver,
   Multiplexer,
   Outbound,
   serializeFrame,
@@ -32,13 +34,15 @@ export class WebsocketDuplexConnection
   implements DuplexConnection, Outbound
 {
   readonly multiplexerDemultiplexer: Multiplexer & Demultiplexer & FrameHandler;
+  readonly connectionInfo: ConnectionInfo = { transport: "websocket" };
 
   constructor(
     private websocket: WebSocket,
     private deserializer: Deserializer,
     multiplexerDemultiplexerFactory: (
       outbound: Outbound & Closeable
-    ) => Multiplexer & Demultiplexer & FrameHandler
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    private readonly frameObserver?: FrameObserver
   ) {
     super();
 
@@ -75,6 +79,8 @@ export class WebsocketDuplexConnection
       return;
     }
 
+    this.frameObserver?.(frame, "outbound", Date.now());
+
     const buffer = serializeFrame(frame);
 
     this.websocket.send(buffer);
@@ -97,6 +103,7 @@ export class WebsocketDuplexConnection
       const buffer = Buffer.from(message.data);
       const frame = this.deserializer.deserializeFrame(buffer);
 
+      this.frameObserver?.(frame, "inbound", Date.now());
       this.multiplexerDemultiplexer.handle(frame);
     } catch (error) {
       this.close(error);
@@ -16,12 +16,14 @@
 
 import {
   Closeable,
+  ConnectionInfo,
   Deferred,
   Demultiplexer,
   deserializeFrame,
   DuplexConnection,
   Frame,
   FrameHandler,
+  FrameObserver,
   Multiplexer,
   Outbound,
   serializeFrame,
@@ -40,10 +42,17 @@ export class WebsocketDuplexConnection
     multiplexerDemultiplexerFactory: (
       frame: Frame,
       outbound: Outbound & Closeable
-    ) => Multiplexer & Demultiplexer & FrameHandler
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    private readonly frameObserver?: FrameObserver,
+    readonly connectionInfo?: ConnectionInfo,
+    readonly context?: unknown
   ) {
     super();
 
+    frameObserver?.(frame, "inbound", Date.now());
+
+    // the stream created by ws only ends when the peer closes the WebSocket
+    websocketDuplex.on("end", this.handleClosed);
     websocketDuplex.on("close", this.handleClosed);
     websocketDuplex.on("error", this.handleError);
     websocketDuplex.on("data", this.handleMessage);
@@ -77,11 +86,8 @@ export class WebsocketDuplexConnection
       return;
     }
 
-    //   if (__DEV__) {
-    //     if (this._options.debug) {
-    //       console.log(printFrame(frame));
-    //     }
-    //   }
+    this.frameObserver?.(frame, "outbound", Date.now());
+
     const buffer =
       /* this._options.lengthPrefixedFrames
           ? serializeFrameWithLength(frame, this._encoders)
@@ -94,11 +100,9 @@ export class WebsocketDuplexConnection
     this.websocketDuplex.write(buffer);
   }
 
-  private handleClosed = (e: CloseEvent): void => {
+  private handleClosed = (): void => {
     this.close(
-      new Error(
-        e.reason || "WebsocketDuplexConnection: Socket closed unexpectedly."
-      )
+      new Error("WebsocketDuplexConnection: Socket closed unexpectedly.")
     );
   };
 
@@ -112,11 +116,7 @@ export class WebsocketDuplexConnection
         /* this._options.lengthPrefixedFrames
           ? deserializeFrameWithLength(buffer, this._encoders)
           :  */ deserializeFrame(buffer);
-      // if (__DEV__) {
-      //   if (this._options.debug) {
-      //     console.log(printFrame(frame));
-      //   }
-      // }
+      this.frameObserver?.(frame, "inbound", Date.now());
       this.multiplexerDemultiplexer.handle(frame);
     } catch (error) {
       this.close(error);
@@ -132,7 +132,10 @@ export class WebsocketDuplexConnection
     multiplexerDemultiplexerFactory: (
       frame: Frame,
       outbound: Outbound & Closeable
-    ) => Multiplexer & Demultiplexer & FrameHandler
+    ) => Multiplexer & Demultiplexer & FrameHandler,
+    frameObserver?: FrameObserver,
+    connectionInfo?: ConnectionInfo,
+    context?: unknown
   ): void {
     // TODO: timeout on no data?
     socket.once("data", async (buffer) => {
@@ -140,7 +143,10 @@ export class WebsocketDuplexConnection
       const connection = new WebsocketDuplexConnection(
         socket,
         frame,
-        multiplexerDemultiplexerFactory
+        multiplexerDemultiplexerFactory,
+        frameObserver,
+        connectionInfo,
+        context
       );
       if (connection.done) {
         return;
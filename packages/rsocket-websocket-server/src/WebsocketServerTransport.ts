@@ -16,15 +16,26 @@
 
 import {
   Closeable,
+  ConnectionInfo,
   Deferred,
   Demultiplexer,
   DuplexConnection,
   Frame,
   FrameHandler,
+  FrameObserver,
+  logFrames,
   Multiplexer,
   Outbound,
   ServerTransport,
 } from "rsocket-core";
+import {
+  createServer,
+  IncomingMessage,
+  Server as HttpServer,
+  STATUS_CODES,
+} from "http";
+import { Duplex } from "stream";
+import { TLSSocket } from "tls";
 import WebSocket, { Server } from "ws";
 import { WebsocketDuplexConnection } from "./WebsocketDuplexConnection";
 
@@ -33,29 +44,87 @@ export type SocketFactory = (options: SocketOptions) => Server;
 export type SocketOptions = {
   host?: string;
   port?: number;
+  /**
+   * Whether the server does not listen itself but is handed the upgrade
+   * requests over with `handleUpgrade`.
+   */
+  noServer?: boolean;
 };
 
+export type Cookies = { [name: string]: string };
+
+/**
+ * Authorizes the upgrade request of a connection. The resolved value is made
+ * available to the `SocketAcceptor` as the `context` of the `SetupPayload`.
+ * Rejecting refuses the upgrade with `401 Unauthorized`.
+ */
+export type UpgradeAuthorizer = (
+  request: IncomingMessage,
+  cookies: Cookies
+) => Promise<unknown>;
+
 export type ServerOptions = SocketOptions & {
+  /**
+   * Existing HTTP server to accept the upgrade requests of, instead of
+   * listening on `host` and `port`. Upgrade requests to other paths are left
+   * to the other `upgrade` listeners of the server.
+   */
+  server?: HttpServer;
+  /**
+   * Path the upgrade requests are accepted on. Accepts all the paths by
+   * default.
+   */
+  path?: string;
+  /**
+   * Authorizes the upgrade requests.
+   */
+  authorize?: UpgradeAuthorizer;
+  /**
+   * Creates the WebSocket server. It is created in `noServer` mode when the
+   * transport is attached to a `server`, in `noServer` mode, or when a `path`
+   * or `authorize` is configured, in which case the transport listens on
+   * `host` and `port` itself.
+   */
   wsCreator?: SocketFactory;
+  /**
+   * Prints every frame sent or received with `logFrames`.
+   */
   debug?: boolean;
+  /**
+   * Receives every frame sent or received. Takes precedence over `debug`.
+   */
+  frameObserver?: FrameObserver;
 };
 
 const defaultFactory: SocketFactory = (options: SocketOptions) => {
   return new Server({
     host: options.host,
     port: options.port,
+    noServer: options.noServer,
   });
 };
 
 export class WebsocketServerTransport implements ServerTransport {
   private readonly host: string;
   private readonly port: number;
+  private readonly server?: HttpServer;
+  private readonly noServer: boolean;
+  private readonly path?: string;
+  private readonly authorize?: UpgradeAuthorizer;
   private readonly factory: SocketFactory;
+  private readonly frameObserver?: FrameObserver;
+  private readonly upgradeHandlers: Array<UpgradeHandler> = [];
 
   constructor(options: ServerOptions) {
     this.host = options.host;
     this.port = options.port;
+    this.server = options.server;
+    this.noServer = options.noServer ?? false;
+    this.path = options.path;
+    this.authorize = options.authorize;
     this.factory = options.wsCreator ?? defaultFactory;
+    this.frameObserver =
+      options.frameObserver ?? (options.debug ? logFrames() : undefined);
   }
 
   async bind(
@@ -68,31 +137,160 @@ export class WebsocketServerTransport implements ServerTransport {
       outbound: Outbound & Closeable
     ) => Multiplexer & Demultiplexer & FrameHandler
   ): Promise<Closeable> {
-    const websocketServer: Server = await this.connectServer();
-    const serverCloseable = new ServerCloseable(websocketServer);
+    const attached = Boolean(
+      this.server || this.noServer || this.path !== undefined || this.authorize
+    );
+    // listens on host and port itself unless attached to a given server, so
+    // the upgrade requests are authorized before the WebSocket is accepted
+    const ownServer =
+      attached && !this.server && !this.noServer
+        ? await this.listen()
+        : undefined;
+    const websocketServer: Server = await this.connectServer(attached);
+    const serverCloseable = new ServerCloseable(websocketServer, ownServer);
 
-    const connectionListener = (websocket: WebSocket) => {
+    const connectionListener = (
+      websocket: WebSocket,
+      request: IncomingMessage,
+      context?: unknown
+    ) => {
       websocket.binaryType = "nodebuffer";
       const duplex = WebSocket.createWebSocketStream(websocket);
       WebsocketDuplexConnection.create(
         duplex,
         connectionAcceptor,
-        multiplexerDemultiplexerFactory
+        multiplexerDemultiplexerFactory,
+        this.frameObserver,
+        requestConnectionInfo(request),
+        context
       );
     };
 
     const closeListener = (error?: Error) => {
-      serverCloseable.close(error);
+      if (!serverCloseable.done) {
+        serverCloseable.close(error);
+      }
     };
 
-    websocketServer.addListener("connection", connectionListener);
+    if (attached) {
+      const upgradeHandler: UpgradeHandler = async (request, socket, head) => {
+        let context: unknown;
+        try {
+          context = await this.authorize?.(
+            request,
+            parseCookies(request.headers.cookie)
+          );
+        } catch (error) {
+          abortHandshake(socket, 401);
+          return;
+        }
+
+        if (serverCloseable.done) {
+          abortHandshake(socket, 503);
+          return;
+        }
+
+        try {
+          websocketServer.handleUpgrade(request, socket, head, (websocket) =>
+            connectionListener(websocket, request, context)
+          );
+        } catch (error) {
+          abortHandshake(socket, 500);
+        }
+      };
+
+      const httpServer = this.server ?? ownServer;
+      if (httpServer) {
+        const upgradeListener = (
+          request: IncomingMessage,
+          socket: Duplex,
+          head: Buffer
+        ) => {
+          if (this.matches(request)) {
+            upgradeHandler(request, socket, head);
+          } else if (ownServer) {
+            // there is no other listener to leave the request to
+            abortHandshake(socket, 404);
+          }
+        };
+        httpServer.addListener("upgrade", upgradeListener);
+        serverCloseable.onClose(() =>
+          httpServer.removeListener("upgrade", upgradeListener)
+        );
+      } else {
+        this.upgradeHandlers.push(upgradeHandler);
+        serverCloseable.onClose(() =>
+          this.upgradeHandlers.splice(
+            this.upgradeHandlers.indexOf(upgradeHandler),
+            1
+          )
+        );
+      }
+      ownServer?.addListener("error", closeListener);
+    } else {
+      websocketServer.addListener("connection", (websocket, request) =>
+        connectionListener(websocket, request)
+      );
+    }
+
     websocketServer.addListener("close", closeListener);
     websocketServer.addListener("error", closeListener);
 
     return serverCloseable;
   }
 
-  private connectServer(): Promise<Server> {
+  /**
+   * Handles an HTTP upgrade request in `noServer` mode. Returns `false`,
+   * leaving the socket untouched, if the request does not match the `path`.
+   * Upgrade requests received before the transport is bound or after it is
+   * closed are refused with `503 Service Unavailable`. When the transport is
+   * bound several times, the latest binding accepts the requests.
+   */
+  handleUpgrade(
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): boolean {
+    if (!this.matches(request)) {
+      return false;
+    }
+
+    const upgradeHandler =
+      this.upgradeHandlers[this.upgradeHandlers.length - 1];
+    if (!upgradeHandler) {
+      abortHandshake(socket, 503);
+      return true;
+    }
+
+    upgradeHandler(request, socket, head);
+    return true;
+  }
+
+  private matches(request: IncomingMessage): boolean {
+    return this.path === undefined || pathname(request) === this.path;
+  }
+
+  private listen(): Promise<HttpServer> {
+    return new Promise((resolve, reject) => {
+      const httpServer = createServer((request, response) => {
+        const message = STATUS_CODES[426];
+        response.writeHead(426, { "Content-Type": "text/plain" });
+        response.end(message);
+      });
+
+      httpServer.once("error", reject);
+      httpServer.listen({ host: this.host, port: this.port }, () => {
+        httpServer.removeListener("error", reject);
+        resolve(httpServer);
+      });
+    });
+  }
+
+  private connectServer(attached: boolean): Promise<Server> {
+    if (attached) {
+      return Promise.resolve(this.factory({ noServer: true }));
+    }
+
     return new Promise((resolve, reject) => {
       const websocketServer = this.factory({
         host: this.host,
@@ -110,8 +308,17 @@ export class WebsocketServerTransport implements ServerTransport {
   }
 }
 
+type UpgradeHandler = (
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+) => void;
+
 class ServerCloseable extends Deferred {
-  constructor(private readonly server: Server) {
+  constructor(
+    private readonly server: Server,
+    private readonly httpServer?: HttpServer
+  ) {
     super();
   }
 
@@ -122,6 +329,80 @@ class ServerCloseable extends Deferred {
     }
 
     this.server.close();
+    this.httpServer?.close();
     super.close();
   }
 }
+
+function pathname(request: IncomingMessage): string {
+  const index = request.url.indexOf("?");
+  return index !== -1 ? request.url.slice(0, index) : request.url;
+}
+
+function requestConnectionInfo(request: IncomingMessage): ConnectionInfo {
+  const socket = request.socket;
+  const connectionInfo: ConnectionInfo = {
+    transport: "websocket",
+    remoteAddress: socket.remoteAddress,
+    remotePort: socket.remotePort,
+    headers: request.headers,
+  };
+  if (!(socket instanceof TLSSocket)) {
+    return connectionInfo;
+  }
+
+  const certificate = socket.getPeerCertificate();
+  return {
+    ...connectionInfo,
+    tls: {
+      protocol: socket.getProtocol() ?? undefined,
+      cipher: socket.getCipher()?.name,
+      authorized: socket.authorized,
+      // an empty object is returned if the peer has not sent a certificate
+      peerCertificate:
+        certificate && Object.keys(certificate).length
+          ? certificate
+          : undefined,
+    },
+  };
+}
+
+function parseCookies(header?: string): Cookies {
+  const cookies: Cookies = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    if (name && !Object.prototype.hasOwnProperty.call(cookies, name)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch (error) {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
+
+function abortHandshake(socket: Duplex, code: number) {
+  const message = STATUS_CODES[code];
+  socket.end(
+    `HTTP/1.1 ${code} ${message}\r\n` +
+      "Connection: close\r\n" +
+      "Content-Type: text/plain\r\n" +
+      `Content-Length: ${Buffer.byteLength(message)}\r\n` +
+      `\r\n${message}`
+  );
+}
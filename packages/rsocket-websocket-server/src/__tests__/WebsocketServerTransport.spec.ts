@@ -0,0 +1,275 @@
+import { createServer, IncomingMessage, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import {
+  Closeable,
+  ConnectionInfo,
+  RSocket,
+  RSocketConnector,
+  RSocketServer,
+  SetupPayload,
+} from "rsocket-core";
+import { WebsocketClientTransport } from "rsocket-websocket-client";
+import WebSocket from "ws";
+import { Cookies, ServerOptions, WebsocketServerTransport } from "../index";
+
+type Accepted = {
+  setup: SetupPayload;
+  connectionInfo?: ConnectionInfo;
+};
+
+describe("WebsocketServerTransport", () => {
+  let httpServer: HttpServer | undefined;
+  let servers: Array<Closeable> = [];
+  let client: RSocket | undefined;
+
+  afterEach(async () => {
+    client?.close();
+    servers.forEach((server) => server.close());
+    if (httpServer) {
+      await new Promise((resolve) => httpServer.close(resolve));
+    }
+    client = undefined;
+    servers = [];
+    httpServer = undefined;
+  });
+
+  function listen(): Promise<number> {
+    httpServer = createServer();
+    return new Promise((resolve) =>
+      httpServer.listen(0, "127.0.0.1", () =>
+        resolve((httpServer.address() as AddressInfo).port)
+      )
+    );
+  }
+
+  async function bind(options: ServerOptions): Promise<Array<Accepted>> {
+    const accepted: Array<Accepted> = [];
+    servers.push(
+      await new RSocketServer({
+        transport: new WebsocketServerTransport(options),
+        acceptor: {
+          accept: async (setup, remotePeer, connectionInfo) => {
+            accepted.push({ setup, connectionInfo });
+            return {};
+          },
+        },
+      }).bind()
+    );
+    return accepted;
+  }
+
+  function connect(
+    url: string,
+    headers?: { [name: string]: string }
+  ): Promise<RSocket> {
+    return new RSocketConnector({
+      transport: new WebsocketClientTransport({
+        url,
+        wsCreator: (url) => new WebSocket(url, { headers }) as any,
+      }),
+    }).connect();
+  }
+
+  function upgrade(
+    url: string,
+    headers?: { [name: string]: string }
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const websocket = new WebSocket(url, { headers });
+      websocket.on("open", () => {
+        websocket.close();
+        resolve(101);
+      });
+      websocket.on("unexpected-response", (request, response) => {
+        request.destroy();
+        resolve(response.statusCode);
+      });
+      websocket.on("error", reject);
+    });
+  }
+
+  async function accepted(list: Array<Accepted>): Promise<Accepted> {
+    while (!list.length) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return list[0];
+  }
+
+  describe("path", () => {
+    it("accepts the upgrade requests on the path", async () => {
+      const port = await listen();
+      const list = await bind({ server: httpServer, path: "/rsocket" });
+
+      client = await connect(`ws://127.0.0.1:${port}/rsocket?query=1`);
+
+      await accepted(list);
+    });
+
+    it("leaves the other paths to the other upgrade listeners", async () => {
+      const port = await listen();
+      await bind({ server: httpServer, path: "/rsocket" });
+      const other = new WebSocket.Server({ noServer: true });
+      httpServer.on("upgrade", (request: IncomingMessage, socket, head) => {
+        if (request.url === "/other") {
+          other.handleUpgrade(request, socket, head, () => {});
+        }
+      });
+
+      await expect(upgrade(`ws://127.0.0.1:${port}/other`)).resolves.toBe(101);
+      other.close();
+    });
+
+    it("keeps the handler of each bind", async () => {
+      const port = await listen();
+      const first = await bind({ server: httpServer, path: "/first" });
+      const second = await bind({ server: httpServer, path: "/second" });
+      servers.pop().close();
+
+      client = await connect(`ws://127.0.0.1:${port}/first`);
+
+      await accepted(first);
+      expect(second).toEqual([]);
+    });
+
+    it("refuses the other paths when listening on its own", async () => {
+      const port = await listen();
+      await new Promise((resolve) => httpServer.close(resolve));
+      httpServer = undefined;
+      await bind({ host: "127.0.0.1", port, path: "/rsocket" });
+
+      await expect(upgrade(`ws://127.0.0.1:${port}/other`)).resolves.toBe(404);
+    });
+  });
+
+  describe("authorize", () => {
+    it("passes the parsed cookies to authorize", async () => {
+      const port = await listen();
+      let received: Cookies;
+      await bind({
+        server: httpServer,
+        authorize: async (request, cookies) => {
+          received = cookies;
+        },
+      });
+
+      client = await connect(`ws://127.0.0.1:${port}`, {
+        Cookie: 'session=a%20b; quoted="value"; session=second; invalid=%E0',
+      });
+
+      expect(received).toEqual({
+        session: "a b",
+        quoted: "value",
+        invalid: "%E0",
+      });
+    });
+
+    it("passes the authorize context to the acceptor", async () => {
+      const port = await listen();
+      const list = await bind({
+        server: httpServer,
+        authorize: async () => ({ user: "alice" }),
+      });
+
+      client = await connect(`ws://127.0.0.1:${port}`);
+
+      const { setup } = await accepted(list);
+      expect(setup.context).toEqual({ user: "alice" });
+    });
+
+    it("refuses the upgrade with 401 when authorize rejects", async () => {
+      const port = await listen();
+      const list = await bind({
+        server: httpServer,
+        authorize: async () => {
+          throw new Error("Unauthorized");
+        },
+      });
+
+      await expect(upgrade(`ws://127.0.0.1:${port}`)).resolves.toBe(401);
+      expect(list).toEqual([]);
+    });
+
+    it("authorizes the upgrade requests when listening on its own", async () => {
+      const port = await listen();
+      await new Promise((resolve) => httpServer.close(resolve));
+      httpServer = undefined;
+      await bind({
+        host: "127.0.0.1",
+        port,
+        authorize: async () => {
+          throw new Error("Unauthorized");
+        },
+      });
+
+      await expect(upgrade(`ws://127.0.0.1:${port}`)).resolves.toBe(401);
+    });
+  });
+
+  describe("handleUpgrade", () => {
+    it("refuses the upgrade with 500 when the upgrade fails", async () => {
+      const port = await listen();
+      const list = await bind({
+        server: httpServer,
+        wsCreator: (options) => {
+          const websocketServer = new WebSocket.Server(options);
+          websocketServer.handleUpgrade = () => {
+            throw new Error("Malformed request");
+          };
+          return websocketServer;
+        },
+      });
+
+      await expect(upgrade(`ws://127.0.0.1:${port}`)).resolves.toBe(500);
+      expect(list).toEqual([]);
+    });
+  });
+
+  describe("noServer", () => {
+    it("refuses the upgrade with 503 when not bound", async () => {
+      const port = await listen();
+      const transport = new WebsocketServerTransport({ noServer: true });
+      httpServer.on("upgrade", (request, socket, head) =>
+        transport.handleUpgrade(request, socket, head)
+      );
+
+      await expect(upgrade(`ws://127.0.0.1:${port}`)).resolves.toBe(503);
+    });
+
+    it("returns false for the other paths", async () => {
+      const transport = new WebsocketServerTransport({
+        noServer: true,
+        path: "/rsocket",
+      });
+
+      expect(
+        transport.handleUpgrade(
+          { url: "/other" } as IncomingMessage,
+          undefined,
+          undefined
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("connectionInfo", () => {
+    it("passes the request information to the acceptor", async () => {
+      const port = await listen();
+      const list = await bind({ server: httpServer });
+
+      client = await connect(`ws://127.0.0.1:${port}`, {
+        "X-Custom": "custom",
+      });
+
+      const { connectionInfo } = await accepted(list);
+      expect(connectionInfo).toEqual(
+        expect.objectContaining({
+          transport: "websocket",
+          remoteAddress: "127.0.0.1",
+          remotePort: expect.any(Number),
+          headers: expect.objectContaining({ "x-custom": "custom" }),
+        })
+      );
+      expect(connectionInfo.tls).toBeUndefined();
+    });
+  });
+});